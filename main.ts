@@ -1,17 +1,105 @@
-import { Plugin } from 'obsidian';
+import { EditorView } from '@codemirror/view';
+import { editorInfoField, Notice, Plugin, TFile } from 'obsidian';
 import { SidebarView, VIEW_TYPE_VOICE_TRANSCRIBER } from './src/views/SidebarView';
 import type { VoiceTranscriberSettings } from './src/settings/PluginSettings';
 import { DEFAULT_SETTINGS } from './src/settings/PluginSettings';
 import { VoiceTranscriberSettingTab } from './src/settings/SettingTab';
+import { SessionManager } from './src/services/SessionManager';
+import { NoteInserter, type TranscriptContent } from './src/services/NoteInserter';
+import { NoteSuggestModal } from './src/views/NoteSuggestModal';
+import { DictationController } from './src/services/DictationController';
+import { FileTranscriber, isTranscribableFile } from './src/services/FileTranscriber';
+import { AudioFileSuggestModal } from './src/views/AudioFileSuggestModal';
+import { PendingQueue } from './src/services/PendingQueue';
+import { Vocabulary } from './src/services/Vocabulary';
+import { RecordingController } from './src/services/RecordingController';
+import { RecordingSessionTracker } from './src/services/RecordingSessionTracker';
+import { RecordingStatusBar } from './src/views/RecordingStatusBar';
+
+const PENDING_RETRY_INTERVAL = 2 * 60 * 1000; // ms
 
 export default class OBWhisperingPlugin extends Plugin {
 	settings: VoiceTranscriberSettings;
+	sessionManager: SessionManager;
+	pendingQueue: PendingQueue;
+	vocabulary: Vocabulary;
+	recorder: RecordingController;
+	sessionTracker: RecordingSessionTracker;
+	noteInserter: NoteInserter;
+	dictation: DictationController;
+	fileTranscriber: FileTranscriber;
+	private dictationStatusEl: HTMLElement;
+	private recordingStatusBar: RecordingStatusBar;
+	private pushToTalk: { key: string | null; release: () => void } | null = null;
+	private heldKey: KeyboardEvent | null = null;	// 最近一次按下且尚未放開的按鍵
 
 	async onload() {
 		try {
 			// Load settings
 			await this.loadSettings();
 
+			const storageDir = this.manifest.dir ?? `${this.app.vault.configDir}/plugins/${this.manifest.id}`;
+
+			// Recording sessions are persisted in the plugin folder until finished
+			this.sessionManager = new SessionManager({
+				app: this.app,
+				storageDir,
+				getFolder: () => this.settings.sessionFolder
+			});
+
+			// Glossary from settings and the glossary note, sent as the transcription prompt
+			this.vocabulary = new Vocabulary(this.app, () => this.settings);
+
+			// Segments that failed to transcribe wait in the plugin folder and are retried when back online
+			this.pendingQueue = new PendingQueue({
+				app: this.app,
+				storageDir,
+				getSettings: () => this.settings,
+				vocabulary: this.vocabulary
+			});
+
+			// Sidebar recording pipeline; the view and the commands below only subscribe to its events
+			this.recorder = new RecordingController({
+				getSettings: () => this.settings,
+				vocabulary: this.vocabulary,
+				sessionAudio: true
+			});
+			this.recorder.on('sourceChange', (message) => new Notice(message));
+			this.recorder.on('error', (error) => console.error('Recording error:', error));
+
+			// Sessions, session audio and the offline queue keep working while the view is closed
+			this.sessionTracker = new RecordingSessionTracker({
+				recorder: this.recorder,
+				sessionManager: this.sessionManager,
+				pendingQueue: this.pendingQueue,
+				getSettings: () => this.settings
+			});
+			this.sessionTracker.on('saved', (note) => new Notice(`Transcript saved to ${note.path}`));
+			this.sessionTracker.on('error', (error) => new Notice(error.message));
+
+			this.recordingStatusBar = new RecordingStatusBar(
+				this.addStatusBarItem(),
+				this.recorder,
+				this.pendingQueue,
+				() => void this.activateView()
+			);
+			this.app.workspace.onLayoutReady(() => {
+				this.pendingQueue.load()
+					.then(() => this.pendingQueue.drain())
+					.catch((error) => console.error('Failed to load offline queue:', error));
+			});
+			this.registerDomEvent(window, 'online', () => {
+				void this.pendingQueue.drain();
+			});
+			// 按住說話需要知道觸發指令的是哪個按鍵
+			this.registerDomEvent(window, 'keydown', (event) => this.heldKey = event, true);
+			this.registerDomEvent(window, 'keyup', (event) => {
+				if (this.heldKey?.code === event.code) this.heldKey = null;
+			}, true);
+			this.registerInterval(window.setInterval(() => {
+				void this.pendingQueue.drain();
+			}, PENDING_RETRY_INTERVAL));
+
 			// Register the sidebar view
 			this.registerView(
 				VIEW_TYPE_VOICE_TRANSCRIBER,
@@ -32,6 +120,206 @@ export default class OBWhisperingPlugin extends Plugin {
 				}
 			});
 
+			// Recording commands work without the view
+			this.addCommand({
+				id: 'start-recording',
+				name: 'Start recording',
+				checkCallback: (checking) => {
+					if (this.recorder.state !== 'idle') return false;
+					if (!checking) {
+						void this.startRecording();
+					}
+					return true;
+				}
+			});
+
+			this.addCommand({
+				id: 'stop-recording',
+				name: 'Stop recording',
+				checkCallback: (checking) => {
+					if (!this.recorder.active) return false;
+					if (!checking) {
+						void this.recorder.stop();
+					}
+					return true;
+				}
+			});
+
+			this.addCommand({
+				id: 'pause-resume-recording',
+				name: 'Pause/resume recording',
+				callback: () => {
+					if (this.recorder.state === 'idle') {
+						void this.startRecording();
+					} else {
+						void this.recorder.togglePause();
+					}
+				}
+			});
+
+			this.addCommand({
+				id: 'push-to-talk',
+				name: 'Push to talk (record while the hotkey is held)',
+				callback: () => this.startPushToTalk()
+			});
+
+			this.addCommand({
+				id: 'discard-recording-session',
+				name: 'Discard current recording session',
+				checkCallback: (checking) => {
+					if (!this.sessionTracker.hasSession) return false;
+					if (!checking) {
+						this.sessionTracker.discard()
+							.then(() => new Notice('Recording session discarded'))
+							.catch((error) => {
+								console.error('Failed to discard recording session:', error);
+								new Notice(`Failed to discard recording session: ${error.message}`);
+							});
+					}
+					return true;
+				}
+			});
+
+			this.noteInserter = new NoteInserter(this.app, () => this.settings);
+
+			// Transcript insertion commands
+			this.addCommand({
+				id: 'insert-transcript-at-cursor',
+				name: 'Insert transcript at cursor',
+				editorCheckCallback: (checking, editor) => {
+					const transcript = this.getSidebarTranscript();
+					if (!transcript) return false;
+					if (!checking) {
+						this.noteInserter.insertAtCursor(editor, transcript.text);
+					}
+					return true;
+				}
+			});
+
+			this.addCommand({
+				id: 'insert-latest-transcript',
+				name: 'Insert latest recording transcript at cursor',
+				editorCheckCallback: (checking, editor) => {
+					const transcript = this.sessionTracker.getTranscript();
+					if (!transcript.text.trim()) return false;
+					if (!checking) {
+						this.noteInserter.insertAtCursor(editor, transcript.text);
+					}
+					return true;
+				}
+			});
+
+			this.addCommand({
+				id: 'replace-selection-with-transcript',
+				name: 'Replace selection with transcript',
+				editorCheckCallback: (checking, editor) => {
+					const transcript = this.getSidebarTranscript();
+					if (!transcript || !editor.somethingSelected()) return false;
+					if (!checking) {
+						this.noteInserter.replaceSelection(editor, transcript.text);
+					}
+					return true;
+				}
+			});
+
+			this.addCommand({
+				id: 'append-transcript-under-heading',
+				name: 'Append transcript under heading in a note...',
+				checkCallback: (checking) => {
+					const transcript = this.getSidebarTranscript();
+					if (!transcript) return false;
+					if (!checking) {
+						this.chooseNoteAndAppend(transcript);
+					}
+					return true;
+				}
+			});
+
+			this.addCommand({
+				id: 'new-note-from-transcript',
+				name: 'Create new note from transcript',
+				checkCallback: (checking) => {
+					const transcript = this.getSidebarTranscript();
+					if (!transcript) return false;
+					if (!checking) {
+						void this.createNoteFromTranscript(transcript);
+					}
+					return true;
+				}
+			});
+
+			// Live dictation straight into the focused editor
+			this.dictationStatusEl = this.addStatusBarItem();
+			this.dictationStatusEl.hide();
+			this.dictation = new DictationController({
+				settings: this.settings,
+				getEditor: () => this.noteInserter.getTargetEditor(),
+				getNotePath: () => this.noteInserter.getTargetFile()?.path ?? null,
+				queue: this.pendingQueue,
+				vocabulary: this.vocabulary,
+				onStateChange: (active) => {
+					this.dictationStatusEl.setText(active ? '🎙 Dictating' : '');
+					this.dictationStatusEl.toggle(active);
+				},
+				onError: (error) => {
+					console.error('Dictation error:', error);
+					new Notice(`Dictation error: ${error.message}`);
+				},
+				onSourceChange: (message) => new Notice(message)
+			});
+
+			// Keep dictation placeholders anchored while the note is edited around them
+			this.registerEditorExtension(EditorView.updateListener.of((update) => {
+				const editor = update.state.field(editorInfoField, false)?.editor;
+				if (update.docChanged && editor) {
+					this.dictation.mapChanges(editor, update.changes);
+				}
+			}));
+
+			this.addCommand({
+				id: 'toggle-dictation',
+				name: 'Start/stop dictation into the current note',
+				hotkeys: [{ modifiers: ['Mod', 'Shift'], key: 'd' }],
+				callback: () => {
+					this.dictation.toggle().catch((error) => {
+						console.error('Failed to start dictation:', error);
+						new Notice(`Failed to start dictation: ${error.message}`);
+					});
+				}
+			});
+
+			// Transcribe audio and video files already in the vault
+			this.fileTranscriber = new FileTranscriber(this.app, () => this.settings, this.vocabulary);
+
+			this.addCommand({
+				id: 'transcribe-audio-file',
+				name: 'Transcribe audio file...',
+				callback: () => {
+					const activeFile = this.app.workspace.getActiveFile();
+					if (activeFile && isTranscribableFile(activeFile)) {
+						void this.transcribeFile(activeFile);
+						return;
+					}
+					new AudioFileSuggestModal(this.app, (file) => {
+						void this.transcribeFile(file);
+					}).open();
+				}
+			});
+
+			this.registerEvent(
+				this.app.workspace.on('file-menu', (menu, file) => {
+					if (!(file instanceof TFile) || !isTranscribableFile(file)) return;
+					menu.addItem((item) => {
+						item
+							.setTitle('Transcribe audio file')
+							.setIcon('captions')
+							.onClick(() => {
+								void this.transcribeFile(file);
+							});
+					});
+				})
+			);
+
 			// Add settings tab
 			this.addSettingTab(new VoiceTranscriberSettingTab(this.app, this));
 		} catch (error) {
@@ -41,6 +329,10 @@ export default class OBWhisperingPlugin extends Plugin {
 
 	onunload() {
 		// Plugin cleanup
+		this.dictation?.destroy();
+		this.recordingStatusBar?.destroy();
+		this.sessionTracker?.dispose();
+		this.recorder?.dispose();
 	}
 
 	async loadSettings() {
@@ -49,6 +341,122 @@ export default class OBWhisperingPlugin extends Plugin {
 
 	async saveSettings() {
 		await this.saveData(this.settings);
+		this.recorder?.applySettings();
+	}
+
+	async startRecording() {
+		try {
+			await this.recorder.start();
+		} catch (error) {
+			console.error('Failed to start recording:', error);
+			new Notice(`Failed to start recording: ${error.message}`);
+		}
+	}
+
+	/**
+	 * Record until the hotkey's own key is released (or the window loses focus); a paused recording is resumed and paused again
+	 * Run from the command palette, where no key stays held, it works as a toggle: the next run ends it
+	 */
+	startPushToTalk() {
+		if (this.pushToTalk) {
+			// 按住時按鍵重複會一直觸發指令；開關模式下再執行一次就結束
+			if (this.pushToTalk.key !== null) return;
+			if (this.recorder.active) {
+				this.pushToTalk.release();
+				return;
+			}
+			// 錄音已從別處停止
+			this.pushToTalk = null;
+		}
+
+		const { state } = this.recorder;
+		if (state !== 'idle' && state !== 'paused') return;
+
+		const key = this.getHotkeyCode();
+		const resuming = state === 'paused';
+		const started = resuming ? this.recorder.resume() : this.startRecording();
+		const handleKeyup = (event: KeyboardEvent) => {
+			// 先放開修飾鍵不算
+			if (event.code === key) release();
+		};
+		const release = () => {
+			window.removeEventListener('keyup', handleKeyup, true);
+			window.removeEventListener('blur', release);
+			this.pushToTalk = null;
+			void started.then(() => resuming ? this.recorder.pause() : this.recorder.stop());
+		};
+
+		this.pushToTalk = { key, release };
+		if (key !== null) {
+			window.addEventListener('keyup', handleKeyup, true);
+			window.addEventListener('blur', release);
+		}
+	}
+
+	/**
+	 * Key that ran the current command from a hotkey and is still held, or null when it came from the command palette
+	 */
+	private getHotkeyCode(): string | null {
+		const event = this.heldKey;
+		if (!event || ['Shift', 'Control', 'Alt', 'Meta'].indexOf(event.key) !== -1) return null;
+		// 指令面板以 Enter 執行，按鍵事件來自對話框
+		const target = event.target;
+		if (target instanceof HTMLElement && target.closest('.modal-container')) return null;
+		return event.code;
+	}
+
+	/**
+	 * Transcript from the open sidebar, or null when there is nothing to insert
+	 */
+	getSidebarTranscript(): TranscriptContent | null {
+		const view = this.app.workspace.getLeavesOfType(VIEW_TYPE_VOICE_TRANSCRIBER)[0]?.view;
+		if (!(view instanceof SidebarView)) return null;
+
+		const transcript = view.getTranscript();
+		return transcript.text.trim() ? transcript : null;
+	}
+
+	chooseNoteAndAppend(transcript: TranscriptContent) {
+		new NoteSuggestModal(this.app, (file) => {
+			this.noteInserter.appendUnderHeading(file, transcript.text)
+				.then(() => new Notice(`Transcript appended to ${file.basename}`))
+				.catch((error) => {
+					console.error('Failed to append transcript:', error);
+					new Notice(`Failed to append transcript: ${error.message}`);
+				});
+		}).open();
+	}
+
+	async createNoteFromTranscript(transcript: TranscriptContent) {
+		try {
+			await this.noteInserter.createNoteFromTemplate(transcript);
+		} catch (error) {
+			console.error('Failed to create note from transcript:', error);
+			new Notice(`Failed to create note: ${error.message}`);
+		}
+	}
+
+	async transcribeFile(file: TFile) {
+		const notice = new Notice(`Decoding ${file.name}...`, 0);
+		try {
+			const { note, chunks, failed } = await this.fileTranscriber.transcribeFile(file, (progress) => {
+				if (progress.stage === 'transcribing') {
+					notice.setMessage(`Transcribing ${file.name}: part ${progress.completed + 1} of ${progress.total}`);
+				} else if (progress.stage === 'writing') {
+					notice.setMessage(`Writing transcript for ${file.name}...`);
+				}
+			});
+			if (failed.length > 0) {
+				new Notice(`Transcript saved to ${note.path}. ${failed.length} of ${chunks} parts could not be transcribed and are marked in the note.`, 10000);
+			} else {
+				new Notice(`Transcript saved to ${note.path}`);
+			}
+		} catch (error) {
+			console.error('Failed to transcribe file:', error);
+			new Notice(`Failed to transcribe ${file.name}: ${error.message}`);
+		} finally {
+			notice.hide();
+		}
 	}
 
 	async activateView() {
@@ -0,0 +1,265 @@
+import type { VoiceTranscriberSettings } from '../settings/PluginSettings';
+
+/**
+ * 音訊來源管理
+ * 所有輸入（麥克風、系統／分頁音訊）都接到同一個 MediaStreamAudioDestinationNode，
+ * 錄音端拿到的輸出串流固定不變，因此換裝置或耳機被拔掉時不必重建 MediaRecorder
+ */
+
+// microphone: 只錄麥克風 / system: 只錄系統音訊 / both: 兩者混音（視訊會議）
+export type AudioSourceMode = 'microphone' | 'system' | 'both';
+
+export const AUDIO_SOURCE_OPTIONS: Record<AudioSourceMode, string> = {
+  microphone: 'Microphone',
+  system: 'System audio',
+  both: 'Microphone + system audio'
+};
+
+// 錄音與校準使用的麥克風設定：關閉瀏覽器處理，保留原始聲音特徵
+export const RAW_MICROPHONE_CONSTRAINTS: MediaTrackConstraints = {
+  echoCancellation: false,    // Disable to preserve voice characteristics
+  noiseSuppression: false,    // We handle this with our own algorithms
+  autoGainControl: false,     // Keep original levels for better analysis
+  sampleRate: 44100           // Requested only; devices may run at their own rate
+};
+
+export interface AudioInputDevice {
+  deviceId: string;
+  label: string;
+}
+
+export interface AudioSourceManagerOptions {
+  getSettings: () => VoiceTranscriberSettings;
+  // 麥克風的處理選項（回音消除、降噪、自動增益）
+  microphoneConstraints?: MediaTrackConstraints;
+  // 使用中的來源改變時通知（例如耳機拔除後改用預設裝置）
+  onSourceChange?: (message: string) => void;
+}
+
+interface ConnectedInput {
+  stream: MediaStream;
+  source: MediaStreamAudioSourceNode;
+}
+
+export class AudioSourceManager {
+  private options: AudioSourceManagerOptions;
+  private context: AudioContext | null = null;
+  private destination: MediaStreamAudioDestinationNode | null = null;
+  private microphone: ConnectedInput | null = null;
+  private microphoneDeviceId: string | null = null;   // 實際使用中的裝置
+  private system: ConnectedInput | null = null;
+  private mode: AudioSourceMode = 'microphone';
+  private handleDeviceChange = (): void => {
+    void this.onDeviceChange();
+  };
+
+  constructor(options: AudioSourceManagerOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Audio input devices; labels are only available after microphone permission was granted
+   */
+  static async listInputDevices(): Promise<AudioInputDevice[]> {
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    return devices
+      .filter(device => device.kind === 'audioinput')
+      .map((device, index) => ({
+        deviceId: device.deviceId,
+        label: device.label || `Microphone ${index + 1}`
+      }));
+  }
+
+  /**
+   * Open the configured sources
+   * @returns A stream that stays the same for the lifetime of the manager
+   */
+  async open(): Promise<MediaStream> {
+    if (this.destination) {
+      await this.applySettings();
+      return this.destination.stream;
+    }
+
+    this.context = new AudioContext();
+    this.destination = this.context.createMediaStreamDestination();
+
+    try {
+      if (this.context.state === 'suspended') {
+        await this.context.resume();
+      }
+      await this.applySettings();
+    } catch (error) {
+      this.close();
+      throw error;
+    }
+
+    navigator.mediaDevices.addEventListener('devicechange', this.handleDeviceChange);
+    return this.destination.stream;
+  }
+
+  /**
+   * Reconnect sources after the device or source mode setting changed
+   */
+  async applySettings(): Promise<void> {
+    const settings = this.options.getSettings();
+    const mode = settings.audioSource;
+
+    const wantsMicrophone = mode !== 'system';
+    const wantsSystem = mode !== 'microphone';
+
+    if (!wantsMicrophone) {
+      this.disconnect(this.microphone);
+      this.microphone = null;
+      this.microphoneDeviceId = null;
+    } else if (!this.microphone || this.microphoneDeviceId !== (settings.audioDeviceId || 'default')) {
+      await this.connectMicrophone(settings.audioDeviceId);
+    }
+
+    if (!wantsSystem) {
+      this.disconnect(this.system);
+      this.system = null;
+    } else if (!this.system) {
+      await this.connectSystemAudio();
+    }
+
+    this.mode = mode;
+  }
+
+  get sourceMode(): AudioSourceMode {
+    return this.mode;
+  }
+
+  close(): void {
+    navigator.mediaDevices.removeEventListener('devicechange', this.handleDeviceChange);
+
+    this.disconnect(this.microphone);
+    this.disconnect(this.system);
+    this.microphone = null;
+    this.microphoneDeviceId = null;
+    this.system = null;
+
+    if (this.context) {
+      void this.context.close();
+      this.context = null;
+    }
+    this.destination = null;
+  }
+
+  private async connectMicrophone(deviceId: string): Promise<void> {
+    let stream: MediaStream;
+    let usedDeviceId = deviceId || 'default';
+
+    try {
+      stream = await this.getMicrophoneStream(deviceId);
+    } catch (error) {
+      // 記住的裝置已不存在時改用預設裝置
+      const name = (error as Error).name;
+      if (!deviceId || (name !== 'OverconstrainedError' && name !== 'NotFoundError')) {
+        throw error;
+      }
+      stream = await this.getMicrophoneStream('');
+      usedDeviceId = 'default';
+      this.options.onSourceChange?.('Selected microphone not found, using the default input device');
+    }
+
+    this.disconnect(this.microphone);
+    this.microphone = this.connect(stream);
+    this.microphoneDeviceId = usedDeviceId;
+
+    // 裝置被拔除時軌道會結束
+    stream.getAudioTracks().forEach(track => {
+      track.addEventListener('ended', this.handleDeviceChange, { once: true });
+    });
+  }
+
+  private getMicrophoneStream(deviceId: string): Promise<MediaStream> {
+    return navigator.mediaDevices.getUserMedia({
+      audio: {
+        ...this.options.microphoneConstraints,
+        deviceId: deviceId ? { exact: deviceId } : undefined
+      }
+    });
+  }
+
+  private async connectSystemAudio(): Promise<void> {
+    const stream = await this.getSystemAudioStream();
+
+    // 只需要音訊，畫面軌道立即停止
+    stream.getVideoTracks().forEach(track => {
+      track.stop();
+      stream.removeTrack(track);
+    });
+
+    if (stream.getAudioTracks().length === 0) {
+      throw new Error('No audio was shared. Choose a screen or tab and enable "Share audio"');
+    }
+
+    this.system = this.connect(stream);
+    stream.getAudioTracks().forEach(track => {
+      track.addEventListener('ended', () => {
+        this.disconnect(this.system);
+        this.system = null;
+        this.options.onSourceChange?.('System audio sharing stopped');
+      }, { once: true });
+    });
+  }
+
+  private async getSystemAudioStream(): Promise<MediaStream> {
+    try {
+      return await navigator.mediaDevices.getDisplayMedia({ audio: true, video: true });
+    } catch (displayError) {
+      // Electron 未設定 display media handler 時改用 desktop capturer 的舊式 constraints（Windows 支援系統音訊）
+      try {
+        return await navigator.mediaDevices.getUserMedia({
+          audio: { mandatory: { chromeMediaSource: 'desktop' } },
+          video: { mandatory: { chromeMediaSource: 'desktop' } }
+        } as unknown as MediaStreamConstraints);
+      } catch {
+        throw new Error(`System audio capture is not available on this platform: ${(displayError as Error).message}`);
+      }
+    }
+  }
+
+  private connect(stream: MediaStream): ConnectedInput {
+    if (!this.context || !this.destination) {
+      throw new Error('AudioSourceManager is not open');
+    }
+
+    const source = this.context.createMediaStreamSource(stream);
+    source.connect(this.destination);
+    return { stream, source };
+  }
+
+  private disconnect(input: ConnectedInput | null): void {
+    if (!input) return;
+    input.source.disconnect();
+    input.stream.getTracks().forEach(track => track.stop());
+  }
+
+  /**
+   * Switch microphones when the active one disappears or the preferred one comes back
+   */
+  private async onDeviceChange(): Promise<void> {
+    if (!this.destination || this.mode === 'system') return;
+
+    try {
+      const preferred = this.options.getSettings().audioDeviceId;
+      const devices = await AudioSourceManager.listInputDevices();
+      const available = (deviceId: string) => devices.some(device => device.deviceId === deviceId);
+
+      const trackEnded = !this.microphone || this.microphone.stream.getAudioTracks()
+        .every(track => track.readyState === 'ended');
+
+      if (preferred && this.microphoneDeviceId !== preferred && available(preferred)) {
+        await this.connectMicrophone(preferred);
+        this.options.onSourceChange?.('Switched back to the selected microphone');
+      } else if (trackEnded || (this.microphoneDeviceId !== 'default' && !available(this.microphoneDeviceId ?? ''))) {
+        await this.connectMicrophone('');
+        this.options.onSourceChange?.('Microphone disconnected, using the default input device');
+      }
+    } catch (error) {
+      console.error('Failed to switch audio input:', error);
+      this.options.onSourceChange?.(`Lost microphone input: ${(error as Error).message}`);
+    }
+  }
+}
@@ -0,0 +1,279 @@
+import type { ChangeDesc } from '@codemirror/state';
+import type { Editor } from 'obsidian';
+import type { TranscriptSegment } from './SegmentManager';
+import { RecordingController } from './RecordingController';
+import type { PendingQueue } from './PendingQueue';
+import type { Vocabulary } from './Vocabulary';
+import type { VoiceTranscriberSettings } from '../settings/PluginSettings';
+
+/**
+ * 即時聽寫：每個完成的片段直接寫入目前聚焦的編輯器游標處
+ * 處理中的片段先以佔位文字標示，完成後原地替換，因此使用者可以繼續打字
+ * 佔位文字與已寫入的文字以位置追蹤（隨編輯器的每次改動移動），不在筆記中搜尋文字
+ */
+
+export interface DictationControllerOptions {
+  settings: VoiceTranscriberSettings;
+  getEditor: () => Editor | null;
+  getNotePath: () => string | null;
+  queue?: PendingQueue;           // 失敗的片段交給離線佇列，稍後寫回佔位文字處
+  vocabulary?: Vocabulary;
+  onStateChange?: (active: boolean) => void;
+  onError?: (error: Error) => void;
+  onSourceChange?: (message: string) => void;
+}
+
+interface Placeholder {
+  editor: Editor;
+  marker: string;             // 目前應在 from-to 之間的文字
+  notePath: string | null;
+  from: number;
+  to: number;
+}
+
+const DRAIN_TIMEOUT = 60000; // ms, 停止後最多等待處理中片段的時間
+
+export class DictationController {
+  private options: DictationControllerOptions;
+  private recorder: RecordingController | null = null;
+  private placeholders: Map<string, Placeholder> = new Map();
+  private written: Map<string, Placeholder> = new Map();    // 已寫入的文字，接合改動上一段時原地替換
+  private queued: Set<Placeholder> = new Set();              // 等待加入離線佇列的標記
+  private placeholderCount = 0;
+  private isActive = false;
+  private starting: Promise<void> | null = null;   // 麥克風開啟中
+  private startAttempt = 0;                        // stop() 遞增，使開啟中的啟動作廢
+  private draining: Set<RecordingController> = new Set();
+
+  constructor(options: DictationControllerOptions) {
+    this.options = options;
+  }
+
+  start(): Promise<void> {
+    if (this.isActive) return Promise.resolve();
+    // 開啟麥克風期間再次觸發時沿用同一次啟動
+    if (this.starting) return this.starting;
+
+    const starting = this.open(++this.startAttempt).finally(() => {
+      if (this.starting === starting) this.starting = null;
+    });
+    this.starting = starting;
+    return starting;
+  }
+
+  private async open(attempt: number): Promise<void> {
+    const { settings } = this.options;
+
+    // 前一次停止後仍在處理的片段交給舊的 controller 完成
+    const recorder = new RecordingController({
+      getSettings: () => settings,
+      vocabulary: this.options.vocabulary
+    });
+    recorder.on('segment', (segment) => this.handleSegmentUpdate(segment));
+    recorder.on('segmentFailed', (segment, audioBlob) => this.handleSegmentFailed(segment, audioBlob));
+    recorder.on('error', (error) => this.options.onError?.(error));
+    recorder.on('sourceChange', (message) => this.options.onSourceChange?.(message));
+
+    try {
+      await recorder.start();
+    } catch (error) {
+      recorder.dispose();
+      throw error;
+    }
+
+    // 開啟期間已被停止：還沒有任何片段，直接釋放麥克風
+    if (attempt !== this.startAttempt) {
+      recorder.dispose();
+      return;
+    }
+
+    this.recorder = recorder;
+    this.isActive = true;
+    this.options.onStateChange?.(true);
+  }
+
+  stop(): void {
+    if (this.starting) {
+      this.startAttempt++;
+      this.starting = null;
+    }
+    if (!this.isActive || !this.recorder) return;
+
+    const recorder = this.recorder;
+    this.recorder = null;
+    this.isActive = false;
+    this.options.onStateChange?.(false);
+
+    // 等最後的片段轉錄完成再釋放麥克風與佇列
+    this.draining.add(recorder);
+    window.setTimeout(() => this.dispose(recorder), DRAIN_TIMEOUT);
+    void recorder.stop()
+      .then(() => recorder.settled())
+      .then(() => this.dispose(recorder));
+  }
+
+  toggle(): Promise<void> {
+    if (this.isActive || this.starting) {
+      this.stop();
+      return Promise.resolve();
+    }
+    return this.start();
+  }
+
+  get active(): boolean {
+    return this.isActive;
+  }
+
+  /**
+   * Move the tracked placeholders and written text through a change of the editor's document
+   */
+  mapChanges(editor: Editor, changes: ChangeDesc): void {
+    const tracked = Array.from(this.placeholders.values())
+      .concat(Array.from(this.written.values()), Array.from(this.queued));
+    for (const placeholder of tracked) {
+      if (placeholder.editor !== editor) continue;
+      // 緊貼在前的輸入不算在範圍內，緊接在後的輸入（游標停在這裡）也不算
+      placeholder.from = changes.mapPos(placeholder.from, 1);
+      placeholder.to = Math.max(placeholder.from, changes.mapPos(placeholder.to, -1));
+    }
+  }
+
+  private handleSegmentUpdate(segment: TranscriptSegment): void {
+    if (segment.isProcessing) {
+      this.insertPlaceholder(segment.id);
+      return;
+    }
+    this.replacePlaceholder(segment.id, segment.text.trim());
+  }
+
+  private handleSegmentFailed(segment: TranscriptSegment, audioBlob: Blob): void {
+    if (!this.queuePlaceholder(segment, audioBlob)) {
+      this.replacePlaceholder(segment.id, '');
+    }
+  }
+
+  private insertPlaceholder(segmentId: string): void {
+    const editor = this.options.getEditor();
+    if (!editor) return;
+
+    this.placeholderCount++;
+    const marker = `[🎙 transcribing… #${this.placeholderCount}]`;
+    const cursor = editor.getCursor();
+    const text = this.withLeadingSpace(editor, cursor, marker);
+    const to = editor.posToOffset(cursor) + text.length;
+
+    editor.replaceRange(text, cursor);
+    // 讓游標停在佔位文字之後，後續輸入才會接在其後
+    editor.setCursor(editor.offsetToPos(to));
+
+    this.placeholders.set(segmentId, { editor, marker, notePath: this.options.getNotePath(), from: to - marker.length, to });
+  }
+
+  /**
+   * Hand a failed segment to the offline queue, leaving a pending marker in the note
+   * @returns true when the segment was queued
+   */
+  private queuePlaceholder(segment: TranscriptSegment, audioBlob: Blob): boolean {
+    const { queue } = this.options;
+    const placeholder = this.placeholders.get(segment.id);
+    if (!queue || !placeholder?.notePath) return false;
+
+    // 佇列可能跨越重新啟動，標記需全域唯一
+    const pendingMarker = `[🎙 pending… #${Date.now().toString(36)}]`;
+    this.placeholders.delete(segment.id);
+    if (this.replaceMarker(placeholder, pendingMarker)) {
+      this.queued.add(placeholder);
+    }
+
+    queue.add(audioBlob, {
+      segmentId: segment.id,
+      startTime: segment.startTime,
+      duration: segment.endTime !== undefined ? segment.endTime - (segment.startTime ?? 0) : undefined,
+      target: { notePath: placeholder.notePath, marker: pendingMarker }
+    }).catch((error) => {
+      console.error('Failed to queue dictation segment:', error);
+      this.replaceMarker(placeholder, '');
+    }).finally(() => this.queued.delete(placeholder));
+    return true;
+  }
+
+  /**
+   * Write a segment's text over its placeholder, or over the text already written for it
+   * (stitching drops the cut-off last word of the previous segment after it was written)
+   */
+  private replacePlaceholder(segmentId: string, text: string): void {
+    const placeholder = this.placeholders.get(segmentId) ?? this.written.get(segmentId);
+    this.placeholders.delete(segmentId);
+    this.written.delete(segmentId);
+
+    if (!placeholder) {
+      // 片段開始時沒有可用的編輯器，直接寫在目前游標處
+      const editor = this.options.getEditor();
+      if (editor && text) {
+        const cursor = editor.getCursor();
+        const written = this.withLeadingSpace(editor, cursor, text);
+        const to = editor.posToOffset(cursor) + written.length;
+        editor.replaceRange(written, cursor);
+        this.written.set(segmentId, { editor, marker: text, notePath: this.options.getNotePath(), from: to - text.length, to });
+      }
+      return;
+    }
+
+    if (this.replaceMarker(placeholder, text) && text) {
+      this.written.set(segmentId, placeholder);
+    }
+  }
+
+  /**
+   * Replace the tracked range and move it onto the new text
+   * @returns false when the range no longer holds the marker
+   */
+  private replaceMarker(placeholder: Placeholder, text: string): boolean {
+    const { editor, marker, from, to } = placeholder;
+    const value = editor.getValue();
+    if (value.slice(from, to) !== marker) {
+      // 使用者已刪除佔位文字或改寫了內容
+      return false;
+    }
+
+    let start = from;
+    if (!text && from > 0 && value.charAt(from - 1) === ' ') {
+      // 移除空片段時一併移除前導空白
+      start = from - 1;
+    }
+
+    editor.replaceRange(text, editor.offsetToPos(start), editor.offsetToPos(to));
+    placeholder.marker = text;
+    placeholder.from = start;
+    placeholder.to = start + text.length;
+    return true;
+  }
+
+  private withLeadingSpace(editor: Editor, cursor: ReturnType<Editor['getCursor']>, text: string): string {
+    const offset = editor.posToOffset(cursor);
+    const previous = offset > 0 ? editor.getValue().charAt(offset - 1) : '';
+    return previous && !/\s/.test(previous) ? ` ${text}` : text;
+  }
+
+  private dispose(recorder: RecordingController): void {
+    if (!this.draining.delete(recorder)) return;
+
+    const segmentIds = recorder.segmentManager.getAllSegments().map(segment => segment.id);
+    recorder.dispose();
+
+    // 仍未完成的佔位文字直接移除
+    for (const segmentId of segmentIds) {
+      this.written.delete(segmentId);
+      if (this.placeholders.has(segmentId)) {
+        this.replacePlaceholder(segmentId, '');
+      }
+    }
+  }
+
+  destroy(): void {
+    this.stop();
+    for (const recorder of Array.from(this.draining)) {
+      this.dispose(recorder);
+    }
+  }
+}
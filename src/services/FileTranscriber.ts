@@ -0,0 +1,209 @@
+import { moment, normalizePath, type App, type TFile } from 'obsidian';
+import { WhisperAPI, type SegmentTranscription } from './WhisperAPI';
+import { applySegmentTimings, type TranscriptSegment } from './SegmentManager';
+import { createTranscriptionProvider } from './providers/ProviderFactory';
+import type { VoiceTranscriberSettings } from '../settings/PluginSettings';
+import type { Vocabulary } from './Vocabulary';
+import { WavEncoder } from '../utils/WavEncoder';
+import { splitAtSilences } from '../utils/SilenceSplitter';
+import { formatTimecode, getCues } from '../utils/TranscriptFormatter';
+import { ensureFolder, getAvailablePath } from '../utils/VaultUtils';
+import { screenTranscription } from '../utils/HallucinationFilter';
+
+/**
+ * 轉錄保險庫中既有的音訊／影片檔
+ * 解碼後重新取樣為 16 kHz 單聲道，在靜音處切成小於 API 上限的 WAV 片段，逐段送出後依時間軸合併成筆記
+ * 個別片段失敗時保留其他片段的結果，失敗的時間範圍在筆記中標出
+ */
+
+export const TRANSCRIBABLE_EXTENSIONS = ['mp3', 'm4a', 'wav', 'webm', 'ogg', 'mp4'];
+
+export interface FileTranscriptionProgress {
+  stage: 'decoding' | 'transcribing' | 'writing';
+  completed: number;
+  total: number;
+}
+
+export interface FailedChunk {
+  start: number;    // seconds
+  end: number;      // seconds
+  error: string;
+}
+
+export interface FileTranscriptionResult {
+  note: TFile;
+  chunks: number;
+  failed: FailedChunk[];
+}
+
+const TARGET_SAMPLE_RATE = 16000;   // Whisper 內部即以 16 kHz 處理
+const MAX_CHUNK_SECONDS = 600;      // 16 kHz 16-bit 單聲道約 19 MB，低於 25 MB 上限
+
+export function isTranscribableFile(file: TFile): boolean {
+  return TRANSCRIBABLE_EXTENSIONS.includes(file.extension.toLowerCase());
+}
+
+export class FileTranscriber {
+  private app: App;
+  private getSettings: () => VoiceTranscriberSettings;
+  private vocabulary: Vocabulary;
+
+  constructor(app: App, getSettings: () => VoiceTranscriberSettings, vocabulary: Vocabulary) {
+    this.app = app;
+    this.getSettings = getSettings;
+    this.vocabulary = vocabulary;
+  }
+
+  /**
+   * Transcribe an audio or video file and write the result to a new note linked to the source
+   * @returns The created transcript note and the parts that could not be transcribed
+   * @throws When no part could be transcribed
+   */
+  async transcribeFile(
+    file: TFile,
+    onProgress?: (progress: FileTranscriptionProgress) => void
+  ): Promise<FileTranscriptionResult> {
+    const settings = this.getSettings();
+    const provider = createTranscriptionProvider(settings);
+    if (!provider.isConfigured()) {
+      throw new Error(`${provider.displayName} is not configured. Please configure it in settings.`);
+    }
+
+    onProgress?.({ stage: 'decoding', completed: 0, total: 1 });
+    const samples = await this.decodeFile(file);
+    const chunks = splitAtSilences(samples, TARGET_SAMPLE_RATE, { maxChunkSeconds: MAX_CHUNK_SECONDS });
+
+    const whisperAPI = new WhisperAPI(provider);
+    const translationMode = settings.enableTranslation ? settings.translationMode : undefined;
+    const segments: TranscriptSegment[] = [];
+    const failed: FailedChunk[] = [];
+    let firstError: Error | null = null;
+    let language: string | undefined;
+    let previousText = '';
+
+    for (let index = 0; index < chunks.length; index++) {
+      onProgress?.({ stage: 'transcribing', completed: index, total: chunks.length });
+
+      const { start, end } = chunks[index];
+      const audioBlob = WavEncoder.encode(samples.subarray(start, end), TARGET_SAMPLE_RATE);
+      let response: SegmentTranscription;
+      try {
+        response = await whisperAPI.transcribeSegment(audioBlob, {
+          language: settings.language === 'auto' ? undefined : settings.language,
+          response_format: 'verbose_json',
+          prompt: await this.vocabulary.buildPrompt(previousText)
+        }, translationMode);
+      } catch (error) {
+        // 重試已在 WhisperAPI 內用完，記下範圍後繼續下一段
+        console.error(`Failed to transcribe part ${index + 1} of ${file.path}:`, error);
+        firstError = firstError ?? error as Error;
+        failed.push({ start: start / TARGET_SAMPLE_RATE, end: end / TARGET_SAMPLE_RATE, error: (error as Error).message });
+        continue;
+      }
+
+      const { result, reason } = screenTranscription(response, settings);
+      if (reason && settings.hallucinationAction === 'drop') continue;
+      if (!reason) {
+        previousText = result.text || previousText;
+      }
+
+      const segment: TranscriptSegment = {
+        id: `${file.path}#${index}`,
+        timestamp: new Date(),
+        text: result.text,
+        translation: result.translation,
+        flagged: reason ?? undefined,
+        isProcessing: false,
+        startTime: start / TARGET_SAMPLE_RATE
+      };
+      applySegmentTimings(segment, result, (end - start) / TARGET_SAMPLE_RATE);
+
+      segments.push(segment);
+      language = language ?? result.language;
+    }
+
+    if (firstError && failed.length === chunks.length) {
+      throw firstError;
+    }
+
+    onProgress?.({ stage: 'writing', completed: chunks.length, total: chunks.length });
+    const note = await this.writeNote(file, segments, failed, {
+      duration: samples.length / TARGET_SAMPLE_RATE,
+      language: language ?? settings.language,
+      model: provider.getDefaultModel()
+    });
+    return { note, chunks: chunks.length, failed };
+  }
+
+  /**
+   * Decode the file into mono samples at the target sample rate
+   */
+  private async decodeFile(file: TFile): Promise<Float32Array> {
+    const data = await this.app.vault.readBinary(file);
+
+    // 離線 context 不需要開啟音訊裝置，且解碼時會直接重新取樣到 context 的取樣率
+    const context = new OfflineAudioContext(1, 1, TARGET_SAMPLE_RATE);
+    let audioBuffer: AudioBuffer;
+    try {
+      audioBuffer = await context.decodeAudioData(data);
+    } catch (error) {
+      throw new Error(`Could not decode audio from ${file.name}: ${(error as Error).message || 'unsupported format'}`);
+    }
+
+    if (audioBuffer.length === 0) {
+      throw new Error(`${file.name} contains no audio`);
+    }
+
+    // 長錄音解碼後仍很大，直接混進第一個聲道，不再配置一份同長度的陣列
+    return WavEncoder.downmixToMono(audioBuffer, true);
+  }
+
+  private async writeNote(
+    source: TFile,
+    segments: TranscriptSegment[],
+    failed: FailedChunk[],
+    info: { duration: number; language: string; model: string }
+  ): Promise<TFile> {
+    const folder = normalizePath(this.getSettings().sessionFolder || '/');
+    await ensureFolder(this.app, folder);
+
+    const frontmatter = [
+      '---',
+      `source: ${JSON.stringify(`[[${source.path}]]`)}`,
+      `transcribed: ${moment().format('YYYY-MM-DDTHH:mm:ss')}`,
+      `duration: ${formatTimecode(info.duration)}`,
+      `language: ${info.language}`,
+      `model: ${JSON.stringify(info.model)}`,
+      '---',
+      ''
+    ];
+
+    const body: string[] = [`![[${source.path}]]`, ''];
+    const gaps = failed.slice();
+    for (const segment of segments) {
+      while (gaps.length > 0 && gaps[0].start < (segment.startTime ?? 0)) {
+        body.push(this.formatFailedChunk(gaps.shift() as FailedChunk), '');
+      }
+
+      const mark = segment.flagged ? '⚠ ' : '';
+      for (const cue of getCues([segment])) {
+        body.push(`**[${formatTimecode(cue.start)}]** ${mark}${cue.text}`, '');
+      }
+      if (segment.translation) {
+        body.push(`> ${segment.translation.trim()}`, '');
+      }
+    }
+    for (const gap of gaps) {
+      body.push(this.formatFailedChunk(gap), '');
+    }
+
+    const path = getAvailablePath(this.app, folder, `${source.basename} transcript`, 'md');
+    const note = await this.app.vault.create(path, frontmatter.join('\n') + body.join('\n'));
+    await this.app.workspace.getLeaf(false).openFile(note);
+    return note;
+  }
+
+  private formatFailedChunk(chunk: FailedChunk): string {
+    return `**[${formatTimecode(chunk.start)}]** ⚠ Not transcribed (${formatTimecode(chunk.start)}–${formatTimecode(chunk.end)}): ${chunk.error}`;
+  }
+}
@@ -0,0 +1,46 @@
+import { requestUrl } from 'obsidian';
+
+/**
+ * HTTP layer behind WhisperAPI
+ * 預設走 Obsidian 的 requestUrl（不受 CORS 限制）；測試時換成打本機 stub server 的實作
+ */
+
+export interface HttpRequest {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  body: FormData;
+}
+
+export interface HttpResponse {
+  status: number;
+  headers: Record<string, string>;   // 標頭名稱一律小寫
+  text: string;
+}
+
+export type HttpClient = (request: HttpRequest) => Promise<HttpResponse>;
+
+export const obsidianHttpClient: HttpClient = async (request) => {
+  const response = await requestUrl({
+    url: request.url,
+    method: request.method,
+    headers: request.headers,
+    body: request.body as unknown as string,
+    // 錯誤狀態碼交給呼叫端判斷，才拿得到標頭與內容
+    throw: false
+  });
+
+  return {
+    status: response.status,
+    headers: lowercaseHeaders(response.headers),
+    text: response.text
+  };
+};
+
+export function lowercaseHeaders(headers: Record<string, string>): Record<string, string> {
+  const result: Record<string, string> = {};
+  Object.keys(headers).forEach(name => {
+    result[name.toLowerCase()] = headers[name];
+  });
+  return result;
+}
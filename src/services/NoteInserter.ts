@@ -0,0 +1,149 @@
+import { MarkdownView, TFile, moment, normalizePath, type App, type Editor } from 'obsidian';
+import type { VoiceTranscriberSettings } from '../settings/PluginSettings';
+import { formatTimecode } from '../utils/TranscriptFormatter';
+import { ensureFolder, getAvailablePath } from '../utils/VaultUtils';
+
+/**
+ * 將轉錄文字寫入筆記的各種方式
+ * 游標插入、取代選取範圍、附加到指定標題之下、或以範本建立新筆記
+ */
+
+export interface TranscriptContent {
+  text: string;
+  duration: number;   // seconds
+}
+
+export const DEFAULT_NOTE_TEMPLATE = `---
+date: {{date}}
+duration: {{duration}}
+---
+
+{{transcript}}
+`;
+
+export class NoteInserter {
+  private app: App;
+  private getSettings: () => VoiceTranscriberSettings;
+
+  constructor(app: App, getSettings: () => VoiceTranscriberSettings) {
+    this.app = app;
+    this.getSettings = getSettings;
+  }
+
+  /**
+   * The markdown editor the user was last working in, even if the sidebar has focus
+   */
+  getTargetEditor(): Editor | null {
+    const activeEditor = this.app.workspace.activeEditor?.editor;
+    if (activeEditor) return activeEditor;
+
+    const view = this.app.workspace.getMostRecentLeaf()?.view;
+    return view instanceof MarkdownView ? view.editor : null;
+  }
+
+  /**
+   * The note behind getTargetEditor()
+   */
+  getTargetFile(): TFile | null {
+    const activeEditor = this.app.workspace.activeEditor;
+    if (activeEditor?.editor) return activeEditor.file;
+
+    const view = this.app.workspace.getMostRecentLeaf()?.view;
+    return view instanceof MarkdownView ? view.file : null;
+  }
+
+  insertAtCursor(editor: Editor, text: string): void {
+    const cursor = editor.getCursor();
+    editor.replaceRange(text, cursor);
+    editor.setCursor(editor.offsetToPos(editor.posToOffset(cursor) + text.length));
+  }
+
+  replaceSelection(editor: Editor, text: string): void {
+    editor.replaceSelection(text);
+  }
+
+  /**
+   * Append text at the end of the section under the configured heading,
+   * creating the heading at the end of the note when it doesn't exist
+   */
+  async appendUnderHeading(file: TFile, text: string): Promise<void> {
+    const heading = this.getSettings().insertHeading.trim() || 'Transcript';
+
+    await this.app.vault.process(file, content => {
+      const lines = content.split('\n');
+      const headingPattern = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+
+      const headingIndex = lines.findIndex(line => {
+        const match = line.match(headingPattern);
+        return match !== null && match[2].toLowerCase() === heading.toLowerCase();
+      });
+
+      if (headingIndex < 0) {
+        const separator = content.length === 0 ? '' : content.endsWith('\n') ? '\n' : '\n\n';
+        return `${content}${separator}## ${heading}\n\n${text}\n`;
+      }
+
+      // 段落結束於下一個同級或更高層級的標題
+      const level = (lines[headingIndex].match(headingPattern) as RegExpMatchArray)[1].length;
+      let sectionEnd = lines.length;
+      for (let i = headingIndex + 1; i < lines.length; i++) {
+        const match = lines[i].match(headingPattern);
+        if (match && match[1].length <= level) {
+          sectionEnd = i;
+          break;
+        }
+      }
+
+      // 插在段落最後一行非空白內容之後
+      let insertAt = sectionEnd;
+      while (insertAt > headingIndex + 1 && lines[insertAt - 1].trim() === '') {
+        insertAt--;
+      }
+
+      const insertion = ['', text];
+      if (insertAt < lines.length) {
+        insertion.push('');
+      }
+      lines.splice(insertAt, 0, ...insertion);
+      return lines.join('\n');
+    });
+  }
+
+  /**
+   * Create a new note from the user's template and open it
+   * Supported placeholders: {{date}}, {{date:FORMAT}}, {{duration}}, {{transcript}}
+   */
+  async createNoteFromTemplate(content: TranscriptContent): Promise<TFile> {
+    const settings = this.getSettings();
+    const template = await this.readTemplate(settings.noteTemplatePath);
+    const now = moment();
+
+    // 一律用函式取代：字串取代會把逐字稿中的 $&、$` 之類當成特殊樣式
+    const body = template
+      .replace(/{{date(?::([^}]+))?}}/g, (_, format?: string) => now.format(format || 'YYYY-MM-DD HH:mm'))
+      .replace(/{{duration}}/g, () => formatTimecode(content.duration))
+      .replace(/{{transcript}}/g, () => content.text);
+
+    const folder = normalizePath(settings.newNoteFolder || '/');
+    await ensureFolder(this.app, folder);
+
+    const path = getAvailablePath(this.app, folder, `Transcript ${now.format('YYYY-MM-DD HH-mm-ss')}`, 'md');
+    const file = await this.app.vault.create(path, body);
+    await this.app.workspace.getLeaf(false).openFile(file);
+    return file;
+  }
+
+  private async readTemplate(templatePath: string): Promise<string> {
+    if (!templatePath.trim()) {
+      return DEFAULT_NOTE_TEMPLATE;
+    }
+
+    const normalized = normalizePath(templatePath.endsWith('.md') ? templatePath : `${templatePath}.md`);
+    const file = this.app.vault.getAbstractFileByPath(normalized);
+    if (!(file instanceof TFile)) {
+      throw new Error(`Template not found: ${normalized}`);
+    }
+
+    return this.app.vault.read(file);
+  }
+}
@@ -0,0 +1,304 @@
+import { PcmRingBuffer } from '../utils/PcmRingBuffer';
+import { findQuietestSample } from '../utils/SilenceSplitter';
+import { WavEncoder } from '../utils/WavEncoder';
+import { StftNoiseSuppressor } from '../utils/NoiseSuppressor';
+
+/**
+ * 無縫 PCM 擷取
+ * AudioWorklet 把輸入混成單聲道後批次送回主執行緒，存進環形緩衝區；
+ * 分段只是在緩衝區上移動切點，錄音本身從不中斷，因此段與段之間不會遺失樣本
+ * 開啟降噪時 worklet 內先做 STFT 譜減法，緩衝區與上傳的都是降噪後的音訊
+ */
+
+export interface PcmSegment {
+  samples: Float32Array;
+  sampleRate: number;
+  startSample: number;      // 絕對位置（含重疊部分）
+  endSample: number;        // 絕對位置（不含）
+  overlapSamples: number;   // 開頭與上一段重複的樣本數
+}
+
+export interface PcmCaptureOptions {
+  sampleRate?: number;        // 擷取取樣率，預設 16 kHz（Whisper 的原生取樣率）
+  bufferSeconds?: number;     // 環形緩衝區長度
+  overlapSeconds?: number;    // 每段開頭重複上一段結尾的長度，避免切到邊緣的字
+  noiseSuppression?: boolean; // 在 worklet 內降噪
+}
+
+const DEFAULT_SAMPLE_RATE = 16000;
+const DEFAULT_BUFFER_SECONDS = 180;
+const DEFAULT_OVERLAP_SECONDS = 0.3;
+const BATCH_SIZE = 2048;            // 16 kHz 下約 128 ms 送一次
+const STOP_TIMEOUT = 1000;          // ms, worklet 沒回應時不再等待
+
+const PROCESSOR_NAME = 'voice-transcriber-pcm-capture';
+
+// 以 Blob URL 載入，外掛只有單一 main.js 可以散佈；降噪類別以原始碼嵌入
+const WORKLET_SOURCE = `
+const NoiseSuppressor = ${StftNoiseSuppressor.toString()};
+
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    this.batch = new Float32Array(options.processorOptions.batchSize);
+    this.length = 0;
+    this.active = false;
+    this.suppressor = null;
+    this.port.onmessage = (event) => {
+      if (event.data && event.data.command === 'start') {
+        this.length = 0;
+        this.active = true;
+        this.suppressor = event.data.noiseSuppression ? new NoiseSuppressor() : null;
+      } else if (event.data === 'stop') {
+        this.flush();
+        this.post();
+        this.active = false;
+        this.port.postMessage('stopped');
+      }
+    };
+  }
+
+  // 降噪有固定延遲，停止時送入靜音把最後的樣本推出來
+  flush() {
+    if (!this.active || !this.suppressor) return;
+    for (let i = 0; i < this.suppressor.latency; i++) {
+      this.push(this.suppressor.processSample(0));
+    }
+  }
+
+  push(sample) {
+    this.batch[this.length++] = sample;
+    if (this.length === this.batch.length) {
+      this.post();
+    }
+  }
+
+  post() {
+    if (this.length === 0) return;
+    const samples = this.batch.slice(0, this.length);
+    this.port.postMessage(samples, [samples.buffer]);
+    this.length = 0;
+  }
+
+  process(inputs) {
+    const input = inputs[0];
+    if (!this.active || !input || input.length === 0) return true;
+
+    const frames = input[0].length;
+    for (let i = 0; i < frames; i++) {
+      let sum = 0;
+      for (let channel = 0; channel < input.length; channel++) {
+        sum += input[channel][i];
+      }
+      const sample = sum / input.length;
+      this.push(this.suppressor ? this.suppressor.processSample(sample) : sample);
+    }
+    return true;
+  }
+}
+
+registerProcessor('${PROCESSOR_NAME}', PcmCaptureProcessor);
+`;
+
+export class PcmCapture {
+  private context: AudioContext | null = null;
+  private source: MediaStreamAudioSourceNode | null = null;
+  private node: AudioWorkletNode | null = null;
+  private ring: PcmRingBuffer;
+  private segmentStart = 0;
+  private overlapFloor = 0;         // 暫停前的音訊不作為重疊
+  private capturing = false;
+  private stopResolver: (() => void) | null = null;
+  private readonly requestedSampleRate: number;
+  private readonly overlapSeconds: number;
+  private noiseSuppression: boolean;
+
+  constructor(options: PcmCaptureOptions = {}) {
+    this.requestedSampleRate = options.sampleRate ?? DEFAULT_SAMPLE_RATE;
+    this.overlapSeconds = options.overlapSeconds ?? DEFAULT_OVERLAP_SECONDS;
+    this.noiseSuppression = options.noiseSuppression ?? false;
+    this.ring = new PcmRingBuffer(this.requestedSampleRate * (options.bufferSeconds ?? DEFAULT_BUFFER_SECONDS));
+  }
+
+  /**
+   * Load the worklet and connect the stream; capturing starts with begin()
+   */
+  async open(stream: MediaStream): Promise<void> {
+    if (this.context) return;
+
+    const context = new AudioContext({ sampleRate: this.requestedSampleRate });
+    const url = URL.createObjectURL(new Blob([WORKLET_SOURCE], { type: 'application/javascript' }));
+
+    try {
+      await context.audioWorklet.addModule(url);
+      if (context.state === 'suspended') {
+        await context.resume();
+      }
+    } catch (error) {
+      void context.close();
+      throw new Error(`Failed to start audio capture: ${(error as Error).message}`);
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+
+    this.node = new AudioWorkletNode(context, PROCESSOR_NAME, {
+      numberOfOutputs: 1,
+      outputChannelCount: [1],
+      processorOptions: { batchSize: BATCH_SIZE }
+    });
+    this.node.port.onmessage = (event: MessageEvent<Float32Array | string>) => this.handleMessage(event.data);
+
+    this.source = context.createMediaStreamSource(stream);
+    this.source.connect(this.node);
+    // 接到輸出端 worklet 才會被持續驅動；輸出永遠是靜音
+    this.node.connect(context.destination);
+    this.context = context;
+  }
+
+  /**
+   * Turn noise suppression on or off; takes effect at the next begin()
+   */
+  setNoiseSuppression(enabled: boolean): void {
+    this.noiseSuppression = enabled;
+  }
+
+  /**
+   * Start a new recording; positions restart from zero
+   */
+  begin(): void {
+    if (!this.node) {
+      throw new Error('PcmCapture is not open');
+    }
+
+    this.ring.reset();
+    this.segmentStart = 0;
+    this.overlapFloor = 0;
+    this.capturing = true;
+    this.node.port.postMessage({ command: 'start', noiseSuppression: this.noiseSuppression });
+  }
+
+  /**
+   * Continue after finish() without restarting positions (pause/resume)
+   * The first segment after resuming doesn't overlap the audio from before the pause
+   */
+  resume(): void {
+    if (!this.node) {
+      throw new Error('PcmCapture is not open');
+    }
+    if (this.capturing) return;
+
+    this.overlapFloor = this.ring.position;
+    this.capturing = true;
+    this.node.port.postMessage({ command: 'start', noiseSuppression: this.noiseSuppression });
+  }
+
+  /**
+   * Cut the audio recorded since the last cut at its quietest point
+   * @param searchSeconds How far back from the newest sample to look for the cut point
+   * @returns The segment, or null when nothing new was recorded
+   */
+  cut(searchSeconds: number): PcmSegment | null {
+    const end = this.ring.position;
+    const start = Math.max(this.segmentStart, this.ring.oldest);
+    const searchFrom = Math.max(start, end - Math.round(searchSeconds * this.sampleRate));
+    if (end <= searchFrom) return null;
+
+    const cutAt = searchFrom + findQuietestSample(this.ring.read(searchFrom, end), this.sampleRate);
+    return this.take(cutAt);
+  }
+
+  /**
+   * Stop capturing and return everything not yet cut, including samples still in the worklet
+   */
+  async finish(): Promise<PcmSegment | null> {
+    if (!this.capturing) return null;
+    this.capturing = false;
+
+    if (this.node) {
+      await new Promise<void>(resolve => {
+        const timeout = window.setTimeout(resolve, STOP_TIMEOUT);
+        this.stopResolver = () => {
+          window.clearTimeout(timeout);
+          resolve();
+        };
+        this.node?.port.postMessage('stop');
+      });
+      this.stopResolver = null;
+    }
+
+    return this.take(this.ring.position);
+  }
+
+  /**
+   * Encode a segment as 16-bit PCM WAV
+   */
+  static toWav(segment: PcmSegment): Blob {
+    return WavEncoder.encode(segment.samples, segment.sampleRate);
+  }
+
+  /** Actual sample rate; the browser may not honour the requested one */
+  get sampleRate(): number {
+    return this.context?.sampleRate ?? this.requestedSampleRate;
+  }
+
+  /** Seconds recorded since the last cut */
+  get pendingSeconds(): number {
+    return (this.ring.position - this.segmentStart) / this.sampleRate;
+  }
+
+  /** Seconds recorded since begin() */
+  get recordedSeconds(): number {
+    return this.ring.position / this.sampleRate;
+  }
+
+  get isCapturing(): boolean {
+    return this.capturing;
+  }
+
+  close(): void {
+    this.capturing = false;
+    this.stopResolver?.();
+    this.source?.disconnect();
+    this.node?.disconnect();
+    if (this.node) {
+      this.node.port.onmessage = null;
+    }
+    if (this.context) {
+      void this.context.close();
+    }
+    this.source = null;
+    this.node = null;
+    this.context = null;
+  }
+
+  private take(cutAt: number): PcmSegment | null {
+    // 超過緩衝區長度仍未切段時，最舊的音訊已被覆蓋
+    const start = Math.max(this.segmentStart, this.ring.oldest);
+    if (cutAt <= start) return null;
+
+    const overlapStart = Math.max(
+      this.ring.oldest,
+      Math.min(start, this.overlapFloor),
+      start - Math.round(this.overlapSeconds * this.sampleRate)
+    );
+    this.segmentStart = cutAt;
+
+    return {
+      samples: this.ring.read(overlapStart, cutAt),
+      sampleRate: this.sampleRate,
+      startSample: overlapStart,
+      endSample: cutAt,
+      overlapSamples: start - overlapStart
+    };
+  }
+
+  private handleMessage(data: Float32Array | string): void {
+    if (data === 'stopped') {
+      this.stopResolver?.();
+      return;
+    }
+    if (typeof data !== 'string') {
+      this.ring.write(data);
+    }
+  }
+}
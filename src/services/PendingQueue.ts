@@ -0,0 +1,291 @@
+import { TFile, moment, normalizePath, type App } from 'obsidian';
+import { WhisperAPI, type SegmentTranscription, type WhisperAPIOptions } from './WhisperAPI';
+import { createTranscriptionProvider } from './providers/ProviderFactory';
+import type { Vocabulary } from './Vocabulary';
+import type { TranslationMode, VoiceTranscriberSettings } from '../settings/PluginSettings';
+import { ensureFolder, getAvailablePath } from '../utils/VaultUtils';
+import { screenTranscription } from '../utils/HallucinationFilter';
+
+/**
+ * 離線佇列
+ * 轉錄失敗（離線、限流、金鑰錯誤…）的片段音訊存到外掛資料夾，恢復連線後自動重送，
+ * 結果交給仍在進行的錄音工作階段處理，否則直接寫回原本的筆記
+ */
+
+export interface PendingTarget {
+  notePath: string;
+  marker?: string;      // 筆記中的佔位文字，有值時原地替換，否則附加在筆記末尾
+}
+
+export interface PendingItem {
+  id: string;
+  segmentId: string;
+  createdAt: string;    // ISO string
+  mimeType: string;
+  startTime?: number;   // seconds since session start
+  duration?: number;    // seconds
+  language?: string;
+  translationMode?: TranslationMode;
+  target?: PendingTarget;
+  attempts: number;
+  lastError?: string;
+}
+
+export interface PendingQueueOptions {
+  app: App;
+  storageDir: string;
+  getSettings: () => VoiceTranscriberSettings;
+  vocabulary?: Vocabulary;      // 重送時只帶詞彙表，前後文已無從得知
+  api?: WhisperAPIOptions;      // HTTP 層與逾時、重試設定
+}
+
+/**
+ * Receives the transcription of a queued segment; return true when it was handled
+ */
+export type PendingResultHandler = (item: PendingItem, result: SegmentTranscription) => boolean;
+
+export class PendingQueue {
+  private options: PendingQueueOptions;
+  private items: PendingItem[] = [];
+  private listeners: Set<(items: PendingItem[]) => void> = new Set();
+  private resultHandlers: Set<PendingResultHandler> = new Set();
+  private inFlight: Set<string> = new Set();
+  private draining: Promise<void> | null = null;
+
+  constructor(options: PendingQueueOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Read items left over from previous runs
+   */
+  async load(): Promise<void> {
+    const { adapter } = this.options.app.vault;
+    const root = this.getQueueDir();
+
+    if (!(await adapter.exists(root))) return;
+
+    const listing = await adapter.list(root);
+    const items: PendingItem[] = [];
+    for (const path of listing.files) {
+      if (!path.endsWith('.json')) continue;
+      try {
+        items.push(JSON.parse(await adapter.read(path)) as PendingItem);
+      } catch (error) {
+        console.error('Failed to read queued segment:', path, error);
+      }
+    }
+
+    this.items = items.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    this.notify();
+  }
+
+  /**
+   * Store a segment's audio for a later attempt
+   */
+  async add(
+    audioBlob: Blob,
+    meta: Pick<PendingItem, 'segmentId' | 'startTime' | 'duration' | 'target'>,
+    error?: Error
+  ): Promise<PendingItem> {
+    const settings = this.options.getSettings();
+    const item: PendingItem = {
+      ...meta,
+      id: `${moment().format('YYYYMMDD-HHmmss')}-${Math.random().toString(36).substring(2, 7)}`,
+      createdAt: new Date().toISOString(),
+      mimeType: audioBlob.type || 'audio/webm',
+      language: settings.language,
+      translationMode: settings.enableTranslation ? settings.translationMode : undefined,
+      attempts: 1,
+      lastError: error?.message
+    };
+
+    const { adapter } = this.options.app.vault;
+    if (!(await adapter.exists(this.getQueueDir()))) {
+      await adapter.mkdir(this.getQueueDir());
+    }
+    await adapter.writeBinary(this.getAudioPath(item.id), await audioBlob.arrayBuffer());
+    await this.writeItem(item);
+
+    this.items.push(item);
+    this.notify();
+    return item;
+  }
+
+  getItems(): PendingItem[] {
+    return [...this.items];
+  }
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  /**
+   * Retry one item now
+   * @returns true when the item was transcribed and removed from the queue
+   */
+  async retry(id: string): Promise<boolean> {
+    const item = this.items.find(i => i.id === id);
+    if (!item || this.inFlight.has(id)) return false;
+    return this.process(item);
+  }
+
+  /**
+   * Retry queued items, stopping at the first failure since the rest would most likely fail too
+   */
+  drain(): Promise<void> {
+    if (this.draining) return this.draining;
+    if (this.items.length === 0) return Promise.resolve();
+
+    // 失敗次數較少的先送，單一壞檔不會一直卡住整個佇列
+    const ordered = [...this.items].sort((a, b) => a.attempts - b.attempts || a.createdAt.localeCompare(b.createdAt));
+
+    this.draining = (async () => {
+      for (const item of ordered) {
+        if (!this.items.includes(item) || this.inFlight.has(item.id)) continue;
+        if (!(await this.process(item))) break;
+      }
+    })().finally(() => {
+      this.draining = null;
+    });
+
+    return this.draining;
+  }
+
+  /**
+   * Drop an item and its audio
+   */
+  async discard(id: string): Promise<void> {
+    const item = this.items.find(i => i.id === id);
+    if (!item) return;
+
+    this.items = this.items.filter(i => i !== item);
+    this.notify();
+    await this.removeFiles(item.id);
+  }
+
+  /**
+   * Listen for queue changes; the listener is called immediately with the current items
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: (items: PendingItem[]) => void): () => void {
+    this.listeners.add(listener);
+    listener(this.getItems());
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Register a handler that gets the first chance to place a finished transcription
+   * @returns Unregister function
+   */
+  handleResults(handler: PendingResultHandler): () => void {
+    this.resultHandlers.add(handler);
+    return () => this.resultHandlers.delete(handler);
+  }
+
+  private async process(item: PendingItem): Promise<boolean> {
+    this.inFlight.add(item.id);
+    try {
+      const provider = createTranscriptionProvider(this.options.getSettings());
+      if (!provider.isConfigured()) {
+        throw new Error(`${provider.displayName} is not configured`);
+      }
+
+      const data = await this.options.app.vault.adapter.readBinary(this.getAudioPath(item.id));
+      const response = await new WhisperAPI(provider, this.options.api).transcribeSegment(
+        new Blob([data], { type: item.mimeType }),
+        {
+          language: !item.language || item.language === 'auto' ? undefined : item.language,
+          response_format: 'verbose_json',
+          prompt: await this.options.vocabulary?.buildPrompt()
+        },
+        item.translationMode
+      );
+
+      // 幻覺輸出不寫回筆記
+      const settings = this.options.getSettings();
+      const { result, reason } = screenTranscription(response, settings);
+      if (reason && settings.hallucinationAction === 'drop') {
+        result.text = '';
+        result.translation = undefined;
+      }
+
+      await this.deliver(item, result);
+
+      this.items = this.items.filter(i => i !== item);
+      this.notify();
+      await this.removeFiles(item.id);
+      return true;
+    } catch (error) {
+      item.attempts++;
+      item.lastError = (error as Error).message;
+      this.notify();
+      await this.writeItem(item).catch(writeError => console.error('Failed to update queued segment:', writeError));
+      return false;
+    } finally {
+      this.inFlight.delete(item.id);
+    }
+  }
+
+  private async deliver(item: PendingItem, result: SegmentTranscription): Promise<void> {
+    for (const handler of this.resultHandlers) {
+      if (handler(item, result)) return;
+    }
+
+    const text = result.text.trim();
+    const block = result.translation ? `${text}\n> ${result.translation.trim()}` : text;
+    const { app } = this.options;
+
+    const file = item.target ? app.vault.getAbstractFileByPath(item.target.notePath) : null;
+    if (file instanceof TFile) {
+      const marker = item.target?.marker;
+      await app.vault.process(file, content => {
+        if (marker && content.includes(marker)) {
+          return content.replace(marker, () => block);
+        }
+        if (!block) return content;
+        const separator = content.length === 0 ? '' : content.endsWith('\n') ? '\n' : '\n\n';
+        return `${content}${separator}${block}\n`;
+      });
+      return;
+    }
+
+    if (!block) return;
+
+    // 沒有可寫回的筆記，另存一份避免遺失
+    const folder = normalizePath(this.options.getSettings().sessionFolder || '/');
+    await ensureFolder(app, folder);
+    const title = `Transcript ${moment(item.createdAt).format('YYYY-MM-DD HH-mm-ss')}`;
+    await app.vault.create(getAvailablePath(app, folder, title, 'md'), `${block}\n`);
+  }
+
+  private notify(): void {
+    const items = this.getItems();
+    this.listeners.forEach(listener => listener(items));
+  }
+
+  private async writeItem(item: PendingItem): Promise<void> {
+    await this.options.app.vault.adapter.write(this.getItemPath(item.id), JSON.stringify(item, null, 2));
+  }
+
+  private async removeFiles(id: string): Promise<void> {
+    const { adapter } = this.options.app.vault;
+    for (const path of [this.getItemPath(id), this.getAudioPath(id)]) {
+      if (await adapter.exists(path)) {
+        await adapter.remove(path);
+      }
+    }
+  }
+
+  private getQueueDir(): string {
+    return normalizePath(`${this.options.storageDir}/queue`);
+  }
+
+  private getItemPath(id: string): string {
+    return normalizePath(`${this.getQueueDir()}/${id}.json`);
+  }
+
+  private getAudioPath(id: string): string {
+    return normalizePath(`${this.getQueueDir()}/${id}.bin`);
+  }
+}
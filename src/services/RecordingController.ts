@@ -0,0 +1,544 @@
+import { AudioSourceManager, RAW_MICROPHONE_CONSTRAINTS } from './AudioSourceManager';
+import { PcmCapture, type PcmSegment } from './PcmCapture';
+import { SegmentManager, type AudioSegment, type RecordingPause, type TranscriptSegment } from './SegmentManager';
+import { SpeakerDiarizer, SpeakerFeatureAccumulator } from './SpeakerDiarizer';
+import { VoiceActivityDetector } from './VoiceActivityDetector';
+import { getVoiceThresholds } from './VadCalibrator';
+import { createTranscriptionProvider } from './providers/ProviderFactory';
+import type { Vocabulary } from './Vocabulary';
+import type { WhisperOptions } from './WhisperAPI';
+import type { VoiceTranscriberSettings } from '../settings/PluginSettings';
+
+/**
+ * 錄音流程
+ * 擷取、語音偵測分段、轉錄與片段狀態都在這裡；側邊欄與指令只訂閱事件
+ */
+
+export type RecordingState = 'idle' | 'initializing' | 'recording' | 'paused';
+
+export interface RecordingEvents {
+  state: (state: RecordingState) => void;
+  segment: (segment: TranscriptSegment) => void;     // 新片段、轉錄結果與接合後的上一段；沒有文字的片段以空字串通知後移除
+  segmentFailed: (segment: TranscriptSegment, audioBlob: Blob, error: Error) => void;
+  level: (level: number) => void;                    // 0-100，每個偵測幀一次
+  time: (seconds: number) => void;                   // 累積的說話時間，每秒一次
+  audioChunk: (chunk: Blob) => void;                 // 工作階段的連續錄音
+  pause: (pause: RecordingPause) => void;            // 繼續錄音時回報剛結束的暫停
+  sourceChange: (message: string) => void;
+  error: (error: Error) => void;
+}
+
+export interface RecordingControllerOptions {
+  getSettings: () => VoiceTranscriberSettings;
+  vocabulary?: Vocabulary;
+  sessionAudio?: boolean;    // 另外以 MediaRecorder 連續錄製整段（壓縮後存檔）
+}
+
+const DETECTION_INTERVAL = 10;        // ms
+const SESSION_CHUNK_INTERVAL = 5000;  // ms, 當機時最多遺失的音訊長度
+const MAX_SEGMENT_SECONDS = 120;      // 持續說話不停頓時的分段上限
+const MIN_SEGMENT_SECONDS = 0.1;      // 更短的片段不送出
+
+export class RecordingController {
+  private options: RecordingControllerOptions;
+  private listeners: Map<keyof RecordingEvents, Set<RecordingEvents[keyof RecordingEvents]>> = new Map();
+  private currentState: RecordingState = 'idle';
+  private segments: SegmentManager;
+  private submissions: Set<Promise<void>> = new Set();
+
+  // Audio graph (opened on start, kept across pause/resume, released on stop)
+  private sources: AudioSourceManager | null = null;
+  private analysisContext: AudioContext | null = null;
+  private analyser: AnalyserNode | null = null;
+  private spectrum: Uint8Array = new Uint8Array(0);
+  private detector: VoiceActivityDetector | null = null;
+  private capture: PcmCapture | null = null;
+  private sessionRecorder: MediaRecorder | null = null;
+  private pausing: Promise<void> = Promise.resolve();
+  private pausedAt = 0;
+
+  // Speaker diarization (說話者編號在 resetSpeakers 前保持一致)
+  private speakerFeatures = new SpeakerFeatureAccumulator();
+  private diarizer: SpeakerDiarizer | null = null;
+
+  // Smart segmentation state
+  private detectionTimer: number | null = null;
+  private clockTimer: number | null = null;
+  private activeSeconds = 0;            // 只在有語音時累加（顯示用）
+  private segmentSeconds = 0;           // 上次切段後的說話時間
+  private segmentReady = false;         // 已達分段長度，等待停頓
+  private voiceActive = false;
+  private wasVoiceActive = false;
+  private lastVoiceEndTime = 0;
+  private segmentFrames = 0;            // 上次切段後的分析幀數（幻覺過濾用）
+  private segmentVoicedFrames = 0;
+
+  constructor(options: RecordingControllerOptions) {
+    this.options = options;
+
+    const settings = options.getSettings();
+    this.segments = new SegmentManager({
+      provider: createTranscriptionProvider(settings),
+      whisperOptions: this.getWhisperOptions(settings),
+      translationMode: settings.enableTranslation ? settings.translationMode : undefined,
+      api: { maxConcurrent: settings.maxConcurrentRequests },
+      vocabulary: options.vocabulary,
+      getSettings: options.getSettings,
+      onSegmentUpdate: (segment) => this.emit('segment', segment),
+      onSegmentFailed: (segment, error) => {
+        console.error('Transcription failed:', error);
+        const audioBlob = segment.audioSegment?.audioBlob;
+        if (audioBlob) {
+          this.emit('segmentFailed', segment, audioBlob, error);
+        } else {
+          this.emit('error', error);
+        }
+      }
+    });
+  }
+
+  /**
+   * Subscribe to an event
+   * @returns Unsubscribe function
+   */
+  on<K extends keyof RecordingEvents>(event: K, listener: RecordingEvents[K]): () => void {
+    const listeners = this.listeners.get(event) ?? new Set();
+    listeners.add(listener);
+    this.listeners.set(event, listeners);
+    return () => listeners.delete(listener);
+  }
+
+  /**
+   * Open the audio sources and start a new recording
+   * Segment times restart from zero, so they line up with the session audio
+   */
+  async start(): Promise<void> {
+    if (this.currentState !== 'idle') return;
+
+    const settings = this.options.getSettings();
+    const provider = createTranscriptionProvider(settings);
+    if (!provider.isConfigured()) {
+      throw new Error(`${provider.displayName} is not configured. Please configure it in settings.`);
+    }
+
+    this.setState('initializing');
+    try {
+      await this.open(settings);
+    } catch (error) {
+      this.setState('idle');
+      throw error;
+    }
+
+    this.applySettings();
+    this.segments.startSession();
+    this.resetSegmentation();
+    this.activeSeconds = 0;
+
+    this.capture!.setNoiseSuppression(settings.noiseSuppression);
+    this.capture!.begin();
+    this.sessionRecorder?.start(SESSION_CHUNK_INTERVAL);
+
+    this.startTimers();
+    this.setState('recording');
+  }
+
+  /**
+   * Pause without ending the recording: the current segment is flushed and transcribed,
+   * voice detection and the session audio are suspended, and the speaking time is kept
+   */
+  async pause(): Promise<void> {
+    if (this.currentState !== 'recording') return;
+
+    this.stopTimers();
+    if (this.sessionRecorder?.state === 'recording') {
+      this.sessionRecorder.pause();
+    }
+    this.pausedAt = Date.now();
+    this.setState('paused');
+
+    if (this.capture?.isCapturing) {
+      const flushed = this.capture.finish();
+      this.track(flushed.then(segment => this.submit(segment)));
+      this.pausing = flushed.then(() => undefined, () => undefined);
+      await this.pausing;
+    }
+  }
+
+  async resume(): Promise<void> {
+    if (this.currentState !== 'paused' || !this.capture) return;
+
+    // 暫停時剩餘樣本可能仍在送回
+    await this.pausing;
+    if (this.currentState !== 'paused') return;
+
+    // 錄音檔不含暫停的時間，片段時間也不含，兩者仍然對齊
+    this.emit('pause', {
+      at: this.capture.recordedSeconds,
+      duration: (Date.now() - this.pausedAt) / 1000
+    });
+
+    this.resetSegmentation();
+    this.capture.setNoiseSuppression(this.options.getSettings().noiseSuppression);
+    this.capture.resume();
+    if (this.sessionRecorder?.state === 'paused') {
+      this.sessionRecorder.resume();
+    }
+
+    this.startTimers();
+    this.setState('recording');
+  }
+
+  /**
+   * Stop recording; audio not cut yet becomes the last segment and is still transcribed
+   * Resolves once the session audio has delivered its last chunk and the audio sources are released
+   */
+  async stop(): Promise<void> {
+    if (this.currentState !== 'recording' && this.currentState !== 'paused') return;
+
+    this.stopTimers();
+    let flushed: Promise<unknown> = this.pausing;
+    if (this.capture?.isCapturing) {
+      // 包含 worklet 內尚未送回的樣本
+      const finished = this.capture.finish();
+      this.track(finished.then(segment => this.submit(segment)));
+      flushed = finished;
+    }
+
+    await this.stopSessionRecorder();
+    // 樣本都取回後才關閉，麥克風與分享的系統音訊不在閒置時保持開啟
+    await flushed.then(() => undefined, () => undefined);
+    this.close();
+    this.setState('idle');
+  }
+
+  /**
+   * Start when idle, otherwise pause or resume
+   */
+  togglePause(): Promise<void> {
+    switch (this.currentState) {
+      case 'idle':
+        return this.start();
+      case 'recording':
+        return this.pause();
+      case 'paused':
+        return this.resume();
+      default:
+        return Promise.resolve();
+    }
+  }
+
+  /**
+   * Resolves when every segment cut so far has been transcribed and delivered
+   */
+  async settled(): Promise<void> {
+    while (this.submissions.size > 0) {
+      await Promise.all(Array.from(this.submissions));
+    }
+  }
+
+  /**
+   * Push changed settings to the transcription queue and voice detection
+   */
+  applySettings(): void {
+    const settings = this.options.getSettings();
+
+    this.segments.updateSettings({
+      provider: createTranscriptionProvider(settings),
+      whisperOptions: this.getWhisperOptions(settings),
+      translationMode: settings.enableTranslation ? settings.translationMode : null,
+      maxConcurrentRequests: settings.maxConcurrentRequests
+    });
+
+    // 換了麥克風或重新校準後改用對應的閾值
+    this.detector?.setThresholds(getVoiceThresholds(settings));
+
+    // FFT 大小只在錄音之間變更，偵測器會自行重新換算頻段
+    if (this.analyser && this.currentState !== 'recording' && this.analyser.fftSize !== settings.vadFftSize) {
+      this.analyser.fftSize = settings.vadFftSize;
+      this.spectrum = new Uint8Array(this.analyser.frequencyBinCount);
+    }
+  }
+
+  /**
+   * Forget known speakers (called when the transcript is cleared)
+   */
+  resetSpeakers(): void {
+    this.diarizer = null;
+    this.speakerFeatures.reset();
+  }
+
+  get state(): RecordingState {
+    return this.currentState;
+  }
+
+  get recording(): boolean {
+    return this.currentState === 'recording';
+  }
+
+  /** Recording or paused */
+  get active(): boolean {
+    return this.currentState === 'recording' || this.currentState === 'paused';
+  }
+
+  /** Segments waiting for a transcription request to start */
+  get queuedSegments(): number {
+    return this.segments.getProcessingQueueLength();
+  }
+
+  get segmentManager(): SegmentManager {
+    return this.segments;
+  }
+
+  /**
+   * Release the microphone and drop queued transcriptions
+   */
+  dispose(): void {
+    this.stopTimers();
+    if (this.sessionRecorder && this.sessionRecorder.state !== 'inactive') {
+      this.sessionRecorder.stop();
+    }
+    this.close();
+    this.segments.dispose();
+    this.submissions.clear();
+    this.listeners.clear();
+    this.currentState = 'idle';
+  }
+
+  private async open(settings: VoiceTranscriberSettings): Promise<void> {
+    // 麥克風、系統音訊或兩者混音，依設定決定；換裝置時輸出串流不變
+    // 降噪由擷取 worklet 處理，麥克風取原始音訊
+    this.sources = new AudioSourceManager({
+      getSettings: this.options.getSettings,
+      microphoneConstraints: RAW_MICROPHONE_CONSTRAINTS,
+      onSourceChange: (message) => this.emit('sourceChange', message)
+    });
+
+    try {
+      const stream = await this.sources.open();
+
+      this.analysisContext = new AudioContext();
+      this.analyser = this.analysisContext.createAnalyser();
+      this.analyser.fftSize = settings.vadFftSize;
+      this.analyser.smoothingTimeConstant = 0.8;
+      this.analysisContext.createMediaStreamSource(stream).connect(this.analyser);
+      this.spectrum = new Uint8Array(this.analyser.frequencyBinCount);
+      this.detector = new VoiceActivityDetector(this.analyser, getVoiceThresholds(settings));
+
+      // 分段用的 PCM 擷取不中斷，切段只移動緩衝區上的切點
+      this.capture = new PcmCapture({ noiseSuppression: settings.noiseSuppression });
+      await this.capture.open(stream);
+
+      if (this.options.sessionAudio) {
+        this.sessionRecorder = new MediaRecorder(stream, {
+          mimeType: getSupportedMimeType(),
+          audioBitsPerSecond: 64000
+        });
+        this.sessionRecorder.addEventListener('dataavailable', (event) => {
+          if (event.data.size > 0) {
+            this.emit('audioChunk', event.data);
+          }
+        });
+      }
+    } catch (error) {
+      this.close();
+      throw new Error(`Failed to initialize recording: ${(error as Error).message}`);
+    }
+  }
+
+  private close(): void {
+    this.capture?.close();
+    if (this.analysisContext) {
+      void this.analysisContext.close();
+    }
+    this.sources?.close();
+    this.capture = null;
+    this.analysisContext = null;
+    this.analyser = null;
+    this.detector = null;
+    this.sessionRecorder = null;
+    this.sources = null;
+  }
+
+  private detect(): void {
+    if (!this.detector || !this.analyser) return;
+
+    const settings = this.options.getSettings();
+    const result = this.detector.detectVoiceActivity();
+    const voiced = this.detector.isSpeech(result);
+
+    this.segmentFrames++;
+    if (voiced) {
+      this.segmentVoicedFrames++;
+    }
+    if (voiced && settings.enableDiarization) {
+      this.analyser.getByteFrequencyData(this.spectrum);
+      const spectrum = new Float32Array(this.spectrum.length);
+      for (let i = 0; i < this.spectrum.length; i++) {
+        spectrum[i] = this.spectrum[i] / 255;
+      }
+      this.speakerFeatures.addFrame(result.features, spectrum);
+    }
+
+    this.voiceActive = voiced;
+    this.emit('level', result.audioLevel);
+    this.updateSegmentation(settings);
+  }
+
+  private tick(): void {
+    if (this.voiceActive) {
+      this.activeSeconds++;
+      this.segmentSeconds++;
+      if (this.segmentSeconds >= this.options.getSettings().segmentDuration) {
+        this.segmentReady = true;
+      }
+    }
+    this.emit('time', this.activeSeconds);
+  }
+
+  private updateSegmentation(settings: VoiceTranscriberSettings): void {
+    const now = Date.now();
+
+    // 一直沒有停頓時強制切段，避免超出緩衝區與上傳大小
+    if (this.capture && this.capture.pendingSeconds >= MAX_SEGMENT_SECONDS) {
+      this.cut(settings);
+    }
+
+    if (!this.voiceActive && this.wasVoiceActive) {
+      this.lastVoiceEndTime = now;
+    }
+    this.wasVoiceActive = this.voiceActive;
+
+    // 說話時間達到分段長度後，在下一個夠長的停頓切段
+    if (this.segmentReady && !this.voiceActive && now - this.lastVoiceEndTime >= settings.pauseThreshold) {
+      this.cut(settings);
+    }
+  }
+
+  private cut(settings: VoiceTranscriberSettings): void {
+    this.segmentReady = false;
+    this.segmentSeconds = 0;
+    if (!this.capture?.isCapturing) return;
+
+    // Cut at the quietest sample of the pause that was just detected; capture keeps running
+    this.track(this.submit(this.capture.cut(settings.pauseThreshold / 1000)));
+  }
+
+  private async submit(pcm: PcmSegment | null): Promise<void> {
+    const speaker = this.identifySpeaker();
+    const voiceRatio = this.takeVoiceRatio();
+
+    // Only process segments with actual audio content
+    if (!pcm || pcm.samples.length - pcm.overlapSamples < pcm.sampleRate * MIN_SEGMENT_SECONDS) {
+      return;
+    }
+
+    const segment: AudioSegment = {
+      id: `segment_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      audioBlob: PcmCapture.toWav(pcm),
+      timestamp: new Date(),
+      startTime: pcm.startSample / pcm.sampleRate,
+      duration: pcm.samples.length / pcm.sampleRate,
+      overlap: pcm.overlapSamples / pcm.sampleRate,
+      speaker,
+      voiceRatio
+    };
+    await this.segments.processAudioSegment(segment);
+  }
+
+  private track(submission: Promise<void>): void {
+    const tracked = submission.catch((error: Error) => this.emit('error', error));
+    this.submissions.add(tracked);
+    void tracked.then(() => this.submissions.delete(tracked));
+  }
+
+  private identifySpeaker(): number | undefined {
+    const settings = this.options.getSettings();
+    const embedding = this.speakerFeatures.takeEmbedding();
+    if (!settings.enableDiarization || !embedding) return undefined;
+
+    if (!this.diarizer) {
+      this.diarizer = new SpeakerDiarizer({
+        maxSpeakers: settings.maxSpeakers,
+        threshold: settings.speakerThreshold
+      });
+    }
+    return this.diarizer.assign(embedding);
+  }
+
+  private takeVoiceRatio(): number | undefined {
+    const ratio = this.segmentFrames > 0 ? this.segmentVoicedFrames / this.segmentFrames : undefined;
+    this.segmentFrames = 0;
+    this.segmentVoicedFrames = 0;
+    return ratio;
+  }
+
+  private resetSegmentation(): void {
+    this.segmentSeconds = 0;
+    this.segmentReady = false;
+    this.voiceActive = false;
+    this.wasVoiceActive = false;
+    this.lastVoiceEndTime = 0;
+    this.segmentFrames = 0;
+    this.segmentVoicedFrames = 0;
+  }
+
+  private startTimers(): void {
+    this.clockTimer = window.setInterval(() => this.tick(), 1000);
+    this.detectionTimer = window.setInterval(() => this.detect(), DETECTION_INTERVAL);
+  }
+
+  private stopTimers(): void {
+    if (this.detectionTimer !== null) {
+      window.clearInterval(this.detectionTimer);
+      this.detectionTimer = null;
+    }
+    if (this.clockTimer !== null) {
+      window.clearInterval(this.clockTimer);
+      this.clockTimer = null;
+    }
+    this.voiceActive = false;
+  }
+
+  private stopSessionRecorder(): Promise<void> {
+    const recorder = this.sessionRecorder;
+    return new Promise(resolve => {
+      if (!recorder || recorder.state === 'inactive') {
+        resolve();
+        return;
+      }
+      // 等最後一塊音訊送出，工作階段關閉前才存得到
+      recorder.addEventListener('stop', () => resolve(), { once: true });
+      recorder.stop();
+    });
+  }
+
+  private getWhisperOptions(settings: VoiceTranscriberSettings): WhisperOptions {
+    return {
+      language: settings.language === 'auto' ? undefined : settings.language,
+      response_format: 'verbose_json',
+      timestamp_granularities: ['word', 'segment']
+    };
+  }
+
+  private setState(state: RecordingState): void {
+    this.currentState = state;
+    this.emit('state', state);
+  }
+
+  private emit<K extends keyof RecordingEvents>(event: K, ...args: Parameters<RecordingEvents[K]>): void {
+    this.listeners.get(event)?.forEach(listener => {
+      (listener as (...values: Parameters<RecordingEvents[K]>) => void)(...args);
+    });
+  }
+}
+
+function getSupportedMimeType(): string {
+  const types = [
+    'audio/webm;codecs=opus',
+    'audio/webm',
+    'audio/ogg;codecs=opus',
+    'audio/mp4',
+    'audio/mpeg'
+  ];
+  return types.find(type => MediaRecorder.isTypeSupported(type)) ?? '';
+}
@@ -0,0 +1,281 @@
+import type { TFile } from 'obsidian';
+import type { RecordingController, RecordingState } from './RecordingController';
+import { applySegmentTimings, type RecordingPause, type TranscriptSegment } from './SegmentManager';
+import type { RecordingSession, SessionManager } from './SessionManager';
+import type { PendingItem, PendingQueue } from './PendingQueue';
+import type { SegmentTranscription } from './WhisperAPI';
+import type { TranscriptContent } from './NoteInserter';
+import { createTranscriptionProvider } from './providers/ProviderFactory';
+import { formatTranscript, type SpeakerNames } from '../utils/TranscriptFormatter';
+import type { VoiceTranscriberSettings } from '../settings/PluginSettings';
+
+/**
+ * 錄音與工作階段的銜接
+ * 開始錄音時建立工作階段，寫入音訊分塊與片段，失敗的片段交給離線佇列、重送結果寫回工作階段，停止時產生筆記；
+ * 側邊欄關著也照常運作，畫面只訂閱片段更新
+ */
+
+export interface SessionTrackerEvents {
+  segment: (segment: TranscriptSegment) => void;   // 與 RecordingController 相同，另含排入離線佇列的片段（pending）與重送結果
+  discard: (segmentIds: string[]) => void;
+  saved: (note: TFile) => void;
+  error: (error: Error) => void;
+}
+
+export interface RecordingSessionTrackerOptions {
+  recorder: RecordingController;
+  sessionManager: SessionManager;
+  pendingQueue: PendingQueue;
+  getSettings: () => VoiceTranscriberSettings;
+}
+
+export class RecordingSessionTracker {
+  private options: RecordingSessionTrackerOptions;
+  private listeners: Map<keyof SessionTrackerEvents, Set<SessionTrackerEvents[keyof SessionTrackerEvents]>> = new Map();
+  private unsubscribers: Array<() => void>;
+
+  // Current (or most recently finished) session; late transcriptions still update its note
+  private sessionReady: Promise<RecordingSession | null> = Promise.resolve(null);
+  private segments: Map<string, TranscriptSegment> = new Map();   // 最近一次錄音的片段
+  private pauses: RecordingPause[] = [];
+  private speakerNames: SpeakerNames = {};
+  private duration = 0;
+  private startedAt = 0;        // 目前工作階段開始的時間；更早的片段（編輯舊錄音）不寫入
+  private recording = false;
+  private discarded = false;    // 丟棄後仍在轉錄的片段一律忽略，直到下一次錄音
+
+  constructor(options: RecordingSessionTrackerOptions) {
+    this.options = options;
+
+    const { recorder } = options;
+    this.unsubscribers = [
+      recorder.on('state', (state) => this.handleState(state)),
+      recorder.on('segment', (segment) => this.handleSegment({ ...segment })),
+      recorder.on('segmentFailed', (segment, audioBlob, error) => void this.handleSegmentFailed(segment, audioBlob, error)),
+      recorder.on('audioChunk', (chunk) => void this.sessionReady.then(session => session?.appendAudioChunk(chunk))),
+      recorder.on('pause', (pause) => this.handlePause(pause)),
+      recorder.on('time', (seconds) => this.duration = seconds),
+      // 筆記由工作階段整份重寫，佇列不能另外附加到筆記末尾
+      options.pendingQueue.handleResults((item, result) => this.handleQueuedResult(item, result))
+    ];
+  }
+
+  /**
+   * Subscribe to an event
+   * @returns Unsubscribe function
+   */
+  on<K extends keyof SessionTrackerEvents>(event: K, listener: SessionTrackerEvents[K]): () => void {
+    const listeners = this.listeners.get(event) ?? new Set();
+    listeners.add(listener);
+    this.listeners.set(event, listeners);
+    return () => listeners.delete(listener);
+  }
+
+  /**
+   * Segments of the current or most recent recording, in order
+   */
+  getSegments(): TranscriptSegment[] {
+    return Array.from(this.segments.values()).sort(
+      (a, b) => (a.startTime ?? 0) - (b.startTime ?? 0)
+    );
+  }
+
+  /**
+   * Plain-text transcript of the current or most recent recording
+   */
+  getTranscript(): TranscriptContent {
+    return {
+      text: formatTranscript(this.getSegments(), 'text', {
+        speakerNames: this.speakerNames,
+        pauses: this.pauses
+      }),
+      duration: this.duration
+    };
+  }
+
+  /**
+   * Where the current or most recent recording was paused
+   */
+  getPauses(): RecordingPause[] {
+    return [...this.pauses];
+  }
+
+  getSession(): Promise<RecordingSession | null> {
+    return this.sessionReady;
+  }
+
+  get hasSession(): boolean {
+    return this.recording || this.segments.size > 0;
+  }
+
+  /**
+   * Rename speakers for the current session and the ones that follow
+   */
+  setSpeakerNames(names: SpeakerNames): void {
+    this.speakerNames = { ...names };
+    void this.sessionReady.then(session => session?.setSpeakerNames(this.speakerNames));
+  }
+
+  /**
+   * Forget the finished session so late results don't reappear (the transcript was cleared)
+   */
+  detach(): void {
+    this.speakerNames = {};
+    if (this.recording) return;
+
+    this.sessionReady = Promise.resolve(null);
+    this.segments.clear();
+    this.pauses = [];
+    this.duration = 0;
+  }
+
+  /**
+   * Stop recording and throw away the current or most recent session, including queued audio
+   */
+  async discard(): Promise<void> {
+    const segmentIds = Array.from(this.segments.keys());
+    const session = this.sessionReady;
+
+    // 先切斷，停止時才不會產生筆記
+    this.discarded = true;
+    this.sessionReady = Promise.resolve(null);
+    this.segments.clear();
+    this.pauses = [];
+    this.duration = 0;
+    await this.options.recorder.stop();
+
+    await (await session)?.discard();
+
+    const { pendingQueue } = this.options;
+    for (const item of pendingQueue.getItems()) {
+      if (segmentIds.indexOf(item.segmentId) !== -1) {
+        await pendingQueue.discard(item.id);
+      }
+    }
+
+    this.emit('discard', segmentIds);
+  }
+
+  dispose(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.listeners.clear();
+  }
+
+  private handleState(state: RecordingState): void {
+    if (state === 'recording' && !this.recording) {
+      this.recording = true;
+      this.startedAt = Date.now();
+      this.discarded = false;
+      this.segments.clear();
+      this.pauses = [];
+      this.duration = 0;
+      this.sessionReady = this.options.getSettings().saveSessions ? this.startSession() : Promise.resolve(null);
+    } else if (state === 'idle' && this.recording) {
+      this.recording = false;
+      void this.finishSession();
+    }
+  }
+
+  private async startSession(): Promise<RecordingSession | null> {
+    const settings = this.options.getSettings();
+    try {
+      const session = await this.options.sessionManager.startSession({
+        language: settings.language,
+        model: createTranscriptionProvider(settings).getDefaultModel()
+      });
+      if (Object.keys(this.speakerNames).length > 0) {
+        session.setSpeakerNames(this.speakerNames);
+      }
+      return session;
+    } catch (error) {
+      console.error('Failed to start recording session:', error);
+      return null;
+    }
+  }
+
+  private async finishSession(): Promise<void> {
+    const session = await this.sessionReady;
+    const note = await session?.finish();
+    if (note) {
+      this.emit('saved', note);
+    }
+  }
+
+  private handlePause(pause: RecordingPause): void {
+    this.pauses.push(pause);
+    void this.sessionReady.then(session => session?.addPause(pause));
+  }
+
+  private handleSegment(segment: TranscriptSegment): void {
+    if (this.discarded) return;
+
+    if (segment.timestamp.getTime() < this.startedAt) {
+      // 重新轉錄、切分或合併較早錄音的片段：只更新畫面
+      this.emit('segment', segment);
+      return;
+    }
+
+    if (!segment.isProcessing && !segment.pending && !segment.text) {
+      // No speech in the segment, a dropped hallucination, or merged into the segment before it
+      if (this.segments.delete(segment.id)) {
+        void this.sessionReady.then(session => session?.removeSegment(segment.id));
+      }
+    } else {
+      this.segments.set(segment.id, segment);
+      void this.sessionReady.then(session => session?.updateSegment(segment));
+    }
+
+    // 有片段成功代表連線恢復，順便清空離線佇列
+    const { pendingQueue } = this.options;
+    if (!segment.isProcessing && !segment.pending && segment.text && pendingQueue.size > 0) {
+      void pendingQueue.drain();
+    }
+
+    this.emit('segment', segment);
+  }
+
+  private async handleSegmentFailed(segment: TranscriptSegment, audioBlob: Blob, error: Error): Promise<void> {
+    const session = await this.sessionReady;
+    if (this.discarded) return;
+
+    try {
+      await this.options.pendingQueue.add(audioBlob, {
+        segmentId: segment.id,
+        startTime: segment.startTime,
+        duration: segment.endTime !== undefined ? segment.endTime - (segment.startTime ?? 0) : undefined,
+        target: session ? { notePath: session.notePath } : undefined
+      }, error);
+      this.handleSegment({ ...segment, isProcessing: false, pending: true });
+    } catch (queueError) {
+      console.error('Failed to queue segment for retry:', queueError);
+      this.handleSegment({ ...segment, text: '', isProcessing: false, pending: false });
+      this.emit('error', new Error('Transcription failed and the audio could not be saved for retry'));
+    }
+  }
+
+  /**
+   * Put a transcription from the offline queue in place of its pending segment
+   * @returns false for segments of older recordings, whose notes the queue updates itself
+   */
+  private handleQueuedResult(item: PendingItem, result: SegmentTranscription): boolean {
+    const existing = this.segments.get(item.segmentId);
+    if (!existing || this.discarded) return false;
+
+    const segment: TranscriptSegment = {
+      ...existing,
+      text: result.text,
+      translation: result.translation,
+      isProcessing: false,
+      pending: false
+    };
+    applySegmentTimings(segment, result, item.duration ?? 0);
+    this.handleSegment(segment);
+    return true;
+  }
+
+  private emit<K extends keyof SessionTrackerEvents>(event: K, ...args: Parameters<SessionTrackerEvents[K]>): void {
+    this.listeners.get(event)?.forEach(listener => {
+      (listener as (...values: Parameters<SessionTrackerEvents[K]>) => void)(...args);
+    });
+  }
+}
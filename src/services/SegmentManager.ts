@@ -1,106 +1,282 @@
-import { AudioRecorder, type AudioSegment } from './AudioRecorder';
-import { WhisperAPI, type WhisperOptions } from './WhisperAPI';
+import { WhisperAPI, type SegmentTranscription, type WhisperAPIOptions, type WhisperOptions } from './WhisperAPI';
+import { formatTranscript, type TranscriptExportFormat } from '../utils/TranscriptFormatter';
+import type { TranscriptionProvider } from './providers/TranscriptionProvider';
+import type { TranslationMode, VoiceTranscriberSettings } from '../settings/PluginSettings';
+import type { Vocabulary } from './Vocabulary';
+import { countWords, removeLeadingWords, removeTrailingWords, stitchSegments } from '../utils/TranscriptStitcher';
+import { screenTranscription } from '../utils/HallucinationFilter';
+import { mergeContent, planSplit } from '../utils/SegmentEditing';
+import { WavEncoder } from '../utils/WavEncoder';
+
+export interface AudioSegment {
+  id: string;
+  audioBlob: Blob;
+  timestamp: Date;
+  startTime: number;    // seconds since session start
+  duration: number;     // seconds, including the overlap
+  overlap: number;      // seconds repeated from the end of the previous segment
+  speaker?: number;
+  voiceRatio?: number;  // 有語音的分析幀比例（幻覺過濾用）
+}
+
+export interface TranscriptCue {
+  start: number;    // seconds since session start
+  end: number;
+  text: string;
+  speaker?: number;
+}
+
+export interface TranscriptWord {
+  word: string;
+  start: number;    // seconds since session start
+  end: number;
+}
+
+export interface RecordingPause {
+  at: number;         // seconds since session start; the session audio has no gap here
+  duration: number;   // seconds the recording was paused
+}
 
 export interface TranscriptSegment {
   id: string;
   timestamp: Date;
   text: string;
+  translation?: string;
+  startTime?: number;     // seconds since session start
+  endTime?: number;
+  cues?: TranscriptCue[]; // verbose_json 子段落，已換算為工作階段時間
+  words?: TranscriptWord[]; // 逐字時間戳（有要求時才有），已換算為工作階段時間
+  speaker?: number;       // 說話者編號（從 1 開始），名稱另存於 SpeakerNames
   isProcessing: boolean;
+  pending?: boolean;      // 轉錄失敗，音訊已存入離線佇列等待重送
+  flagged?: string;       // 疑似幻覺輸出的原因（過濾設定為標記時）
+  tags?: string[];        // 使用者加上的標籤（不含 #），輸出為 Obsidian 標籤
   audioSegment?: AudioSegment;
   confidence?: number;
 }
 
+// 重新轉錄時覆蓋的設定；language 為 'auto' 代表自動偵測
+export interface RetranscribeOptions {
+  model?: string;
+  language?: string;
+  prompt?: string;
+}
+
 export interface SegmentManagerOptions {
-  apiKey: string;
-  segmentDuration?: number;
-  silenceThreshold?: number;
+  provider: TranscriptionProvider;
   whisperOptions?: WhisperOptions;
+  api?: WhisperAPIOptions;        // HTTP 層與逾時、重試設定
+  translationMode?: TranslationMode;
+  vocabulary?: Vocabulary;        // 詞彙表與上一段結尾組成 prompt
+  getSettings?: () => VoiceTranscriberSettings;   // 幻覺過濾設定；未提供時不過濾
   onSegmentUpdate?: (segment: TranscriptSegment) => void;
-  onAudioLevel?: (level: number) => void;
+  onSegmentFailed?: (segment: TranscriptSegment, error: Error) => void;   // 未提供時改以 onSegmentUpdate 與 onError 回報
   onError?: (error: Error) => void;
 }
 
-export class SegmentManager {
-  private audioRecorder: AudioRecorder;
-  private whisperAPI: WhisperAPI;
-  private options: SegmentManagerOptions;
-  private segments: Map<string, TranscriptSegment> = new Map();
-  private isInitialized = false;
+/**
+ * Apply verbose_json timings to a segment, shifting them by the segment's offset in the session
+ * @param segment Segment to update (startTime must already be set)
+ * @param result Transcription result for the segment's audio
+ * @param fallbackDuration Audio duration in seconds when the API doesn't report one
+ */
+export function applySegmentTimings(
+  segment: TranscriptSegment,
+  result: SegmentTranscription,
+  fallbackDuration: number
+): void {
+  const offset = segment.startTime ?? 0;
 
-  constructor(options: SegmentManagerOptions) {
-    this.options = options;
-    this.whisperAPI = new WhisperAPI(options.apiKey);
-    
-    this.audioRecorder = new AudioRecorder({
-      segmentDuration: options.segmentDuration || 8,
-      silenceThreshold: options.silenceThreshold || 0.01,
-      onSegmentReady: this.handleAudioSegment.bind(this),
-      onAudioLevel: options.onAudioLevel,
-      onError: options.onError
-    });
-  }
+  segment.cues = result.segments
+    ?.map(cue => ({
+      start: offset + cue.start,
+      end: offset + cue.end,
+      text: cue.text.trim()
+    }))
+    .filter(cue => cue.text.length > 0);
 
-  async initialize(): Promise<void> {
-    try {
-      await this.audioRecorder.initialize();
-      this.isInitialized = true;
-    } catch (error) {
-      this.options.onError?.(error as Error);
-      throw error;
+  segment.words = result.words?.map(word => ({
+    word: word.word,
+    start: offset + word.start,
+    end: offset + word.end
+  }));
+
+  const lastCueEnd = segment.cues && segment.cues.length > 0
+    ? segment.cues[segment.cues.length - 1].end
+    : undefined;
+  segment.endTime = offset + (result.duration ?? (lastCueEnd !== undefined ? lastCueEnd - offset : fallbackDuration));
+}
+
+/**
+ * Remove the words at the start of a segment that repeat the end of the previous segment
+ * Cues are trimmed along with the text so exports don't repeat them either
+ * @param previous The segment delivered before this one
+ * @param segment A segment that was just transcribed (timings already applied)
+ * @returns true when the previous segment changed too (its cut-off last word was dropped)
+ */
+export function stitchSegment(previous: TranscriptSegment, segment: TranscriptSegment): boolean {
+  const result = stitchSegments(previous, segment);
+
+  segment.text = result.text;
+  segment.words = result.words;
+  if (segment.cues && result.removedWords > 0) {
+    segment.cues = removeLeadingCueWords(segment.cues, result.removedWords);
+    if (segment.cues.length > 0 && segment.words && segment.words.length > 0) {
+      segment.cues[0].start = Math.max(segment.cues[0].start, segment.words[0].start);
     }
   }
 
-  startRecording(): void {
-    if (!this.isInitialized) {
-      throw new Error('SegmentManager not initialized. Call initialize() first.');
-    }
+  if (result.previousRemovedWords === 0) return false;
 
-    try {
-      this.audioRecorder.startRecording();
-    } catch (error) {
-      this.options.onError?.(error as Error);
-      throw error;
+  previous.text = result.previousText;
+  const lastCue = previous.cues?.[previous.cues.length - 1];
+  if (previous.cues && lastCue) {
+    lastCue.text = removeTrailingWords(lastCue.text, result.previousRemovedWords);
+    previous.cues = previous.cues.filter(cue => cue.text.length > 0);
+  }
+  return true;
+}
+
+function removeLeadingCueWords(cues: TranscriptCue[], count: number): TranscriptCue[] {
+  const remaining: TranscriptCue[] = [];
+  let toRemove = count;
+
+  for (const cue of cues) {
+    const words = countWords(cue.text);
+    if (toRemove >= words) {
+      toRemove -= words;
+      continue;
     }
+    remaining.push(toRemove > 0 ? { ...cue, text: removeLeadingWords(cue.text, toRemove) } : cue);
+    toRemove = 0;
   }
 
-  stopRecording(): void {
-    this.audioRecorder.stopRecording();
+  return remaining;
+}
+
+export class SegmentManager {
+  private whisperAPI: WhisperAPI;
+  private options: SegmentManagerOptions;
+  private segments: Map<string, TranscriptSegment> = new Map();
+  private lastText = '';
+  private lastCompleted: TranscriptSegment | null = null;
+  private delivery: Promise<void> = Promise.resolve();
+  private session = 0;
+  private sessionOf: Map<string, number> = new Map();   // 片段屬於第幾次錄音；不同錄音的時間軸不能合併
+  private editing: Set<string> = new Set();             // 正在重新轉錄、切分或合併的片段
+
+  constructor(options: SegmentManagerOptions) {
+    this.options = options;
+    this.whisperAPI = new WhisperAPI(options.provider, options.api);
+  }
+
+  /**
+   * Forget the previous recording's context (prompt text and overlap stitching)
+   */
+  startSession(): void {
+    this.lastText = '';
+    this.lastCompleted = null;
+    this.session++;
   }
 
-  private async handleAudioSegment(audioSegment: AudioSegment): Promise<void> {
+  /**
+   * Transcribe a captured segment and report its progress through onSegmentUpdate
+   * RecordingController calls this for every segment it cuts
+   * Segments without text (silence or dropped hallucinations) are reported once more and then removed
+   */
+  async processAudioSegment(audioSegment: AudioSegment): Promise<void> {
     // Create initial transcript segment
     const transcriptSegment: TranscriptSegment = {
       id: audioSegment.id,
       timestamp: audioSegment.timestamp,
       text: '',
+      startTime: audioSegment.startTime,
+      speaker: audioSegment.speaker,
       isProcessing: true,
       audioSegment
     };
 
     // Store segment and notify
     this.segments.set(audioSegment.id, transcriptSegment);
+    this.sessionOf.set(audioSegment.id, this.session);
     this.options.onSegmentUpdate?.(transcriptSegment);
 
+    // 請求可以並行，但結果依片段順序交付：接合依賴上一段的結果；
+    // prompt 在請求送出時才以當時最後交付的文字建立，不等待上一段
+    const transcription = this.transcribe(audioSegment);
+    transcription.catch(() => undefined);
+    const delivery = this.delivery.then(() => this.deliver(transcriptSegment, audioSegment, transcription));
+    this.delivery = delivery.catch(() => undefined);
+    await delivery;
+  }
+
+  private async transcribe(audioSegment: AudioSegment): Promise<SegmentTranscription> {
+    return this.whisperAPI.transcribeSegment(
+      audioSegment.audioBlob,
+      await this.getWhisperOptions(),
+      this.options.translationMode
+    );
+  }
+
+  private async deliver(
+    transcriptSegment: TranscriptSegment,
+    audioSegment: AudioSegment,
+    transcription: Promise<SegmentTranscription>
+  ): Promise<void> {
     try {
-      // Send to Whisper API for transcription
-      const whisperResponse = await this.whisperAPI.transcribe(
-        audioSegment.audioBlob,
-        this.options.whisperOptions
-      );
+      const response = await transcription;
+
+      const settings = this.options.getSettings?.();
+      const { result, reason } = settings
+        ? screenTranscription(response, settings, audioSegment.voiceRatio)
+        : { result: response, reason: null };
+      if (reason && settings?.hallucinationAction === 'drop') {
+        result.text = '';
+        result.translation = undefined;
+      }
+      if (result.text && !reason) {
+        this.lastText = result.text;
+      }
 
       // Update segment with transcription result
-      transcriptSegment.text = whisperResponse.text.trim();
+      transcriptSegment.text = result.text;
+      transcriptSegment.translation = result.translation;
+      transcriptSegment.flagged = reason && result.text ? reason : undefined;
+      applySegmentTimings(transcriptSegment, result, audioSegment.duration);
       transcriptSegment.isProcessing = false;
 
+      // 去掉與上一段重疊的開頭
+      const previous = this.lastCompleted;
+      if (previous && (previous.startTime ?? 0) < (transcriptSegment.startTime ?? 0)) {
+        if (stitchSegment(previous, transcriptSegment)) {
+          this.options.onSegmentUpdate?.(previous);
+        }
+      }
+      if (transcriptSegment.text) {
+        this.lastCompleted = transcriptSegment;
+      }
+
       // Store updated segment and notify
-      this.segments.set(audioSegment.id, transcriptSegment);
+      if (transcriptSegment.text) {
+        this.segments.set(audioSegment.id, transcriptSegment);
+      } else {
+        this.deleteSegment(audioSegment.id);
+      }
       this.options.onSegmentUpdate?.(transcriptSegment);
 
     } catch (error) {
+      transcriptSegment.isProcessing = false;
+      transcriptSegment.endTime = audioSegment.startTime + audioSegment.duration;
+
+      if (this.options.onSegmentFailed) {
+        // 由呼叫端決定如何保存失敗的音訊（例如離線佇列）
+        this.deleteSegment(audioSegment.id);
+        this.options.onSegmentFailed(transcriptSegment, error as Error);
+        return;
+      }
+
       // Update segment with error state
       transcriptSegment.text = '[Transcription failed]';
-      transcriptSegment.isProcessing = false;
-      
       this.segments.set(audioSegment.id, transcriptSegment);
       this.options.onSegmentUpdate?.(transcriptSegment);
       
@@ -108,6 +284,14 @@ export class SegmentManager {
     }
   }
 
+  private async getWhisperOptions(): Promise<WhisperOptions | undefined> {
+    const { vocabulary, whisperOptions } = this.options;
+    if (!vocabulary) return whisperOptions;
+
+    const buildPrompt = await vocabulary.createPromptBuilder();
+    return { ...whisperOptions, resolvePrompt: () => buildPrompt(this.lastText) };
+  }
+
   getSegment(id: string): TranscriptSegment | undefined {
     return this.segments.get(id);
   }
@@ -129,59 +313,270 @@ export class SegmentManager {
     return false;
   }
 
+  updateSegmentTags(id: string, tags: string[]): boolean {
+    const segment = this.segments.get(id);
+    if (segment) {
+      segment.tags = tags.length > 0 ? [...tags] : undefined;
+      this.options.onSegmentUpdate?.(segment);
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Remove a segment and report it once more without text, the same way as a segment with no speech
+   */
+  removeSegment(id: string): boolean {
+    const segment = this.segments.get(id);
+    if (!segment || segment.isProcessing || this.editing.has(id)) return false;
+
+    this.deleteSegment(id);
+    this.options.onSegmentUpdate?.({ ...segment, text: '', translation: undefined });
+    return true;
+  }
+
+  /**
+   * Put a segment back as it was before an edit (undo), adding it again if it was removed
+   */
+  restoreSegment(state: TranscriptSegment): void {
+    const segment = this.segments.get(state.id);
+    if (segment) {
+      // 之後才加上的欄位（例如標籤）一併移除
+      for (const key of Object.keys(segment)) {
+        if (!(key in state)) {
+          Reflect.deleteProperty(segment, key);
+        }
+      }
+      Object.assign(segment, state);
+    } else {
+      this.segments.set(state.id, { ...state });
+    }
+    this.options.onSegmentUpdate?.(this.segments.get(state.id) as TranscriptSegment);
+  }
+
+  /**
+   * Transcribe a segment's audio again, optionally with another model, language or prompt
+   * The previous text is kept when the request fails or hears nothing
+   */
+  retranscribeSegment(id: string, overrides: RetranscribeOptions = {}): Promise<TranscriptSegment> {
+    return this.edit(id, async (segment, audioSegment) => {
+      const previous = this.getPreviousSegment(segment);
+
+      const options: WhisperOptions = { ...this.options.whisperOptions };
+      if (overrides.model) {
+        options.model = overrides.model;
+      }
+      if (overrides.language) {
+        options.language = overrides.language === 'auto' ? undefined : overrides.language;
+      }
+      const prompt = overrides.prompt || await this.options.vocabulary?.buildPrompt(previous?.text ?? '');
+      if (prompt) {
+        options.prompt = prompt;
+      }
+
+      const result = await this.whisperAPI.transcribeSegment(audioSegment.audioBlob, options, this.options.translationMode);
+      if (!result.text) {
+        throw new Error('No speech recognized in this segment');
+      }
+
+      const updated: TranscriptSegment = { ...segment, text: result.text, translation: result.translation, flagged: undefined };
+      applySegmentTimings(updated, result, audioSegment.duration);
+      // 重疊的開頭照樣去掉，但不動已經定稿的上一段
+      if (previous && audioSegment.overlap > 0) {
+        stitchSegment({ ...previous, cues: previous.cues?.map(cue => ({ ...cue })) }, updated);
+      }
+
+      Object.assign(segment, {
+        text: updated.text,
+        translation: updated.translation,
+        flagged: undefined,
+        cues: updated.cues,
+        words: updated.words,
+        endTime: updated.endTime
+      });
+      this.options.onSegmentUpdate?.(segment);
+      return segment;
+    });
+  }
+
+  /**
+   * Split a segment in two, text and audio, near its middle
+   * @returns The new second half
+   */
+  splitSegment(id: string): Promise<TranscriptSegment> {
+    return this.edit(id, async (segment, audioSegment) => {
+      const plan = planSplit(segment);
+      if (!plan) {
+        throw new Error('The segment is too short to split');
+      }
+
+      const [firstAudio, secondAudio] = await WavEncoder.split(audioSegment.audioBlob, plan.time - audioSegment.startTime);
+      const audioEnd = audioSegment.startTime + audioSegment.duration;
+
+      // 時間戳只晚 1 毫秒，排序時緊接在前半段之後
+      const secondId = `${segment.id}_${Math.random().toString(36).substr(2, 5)}`;
+      const timestamp = new Date(segment.timestamp.getTime() + 1);
+      const second: TranscriptSegment = {
+        ...segment,
+        ...plan.second,
+        id: secondId,
+        timestamp,
+        translation: undefined,
+        flagged: undefined,
+        startTime: plan.time,
+        audioSegment: {
+          ...audioSegment,
+          id: secondId,
+          audioBlob: secondAudio,
+          timestamp,
+          startTime: plan.time,
+          duration: Math.max(0, audioEnd - plan.time),
+          overlap: 0
+        }
+      };
+
+      Object.assign(segment, plan.first);
+      segment.endTime = plan.time;
+      segment.audioSegment = {
+        ...audioSegment,
+        audioBlob: firstAudio,
+        duration: plan.time - audioSegment.startTime
+      };
+
+      this.segments.set(second.id, second);
+      this.sessionOf.set(second.id, this.sessionOf.get(id) ?? this.session);
+      if (this.lastCompleted === segment) {
+        this.lastCompleted = second;
+      }
+
+      this.options.onSegmentUpdate?.(segment);
+      this.options.onSegmentUpdate?.(second);
+      return second;
+    });
+  }
+
+  /**
+   * Join a segment with the one after it in the same recording
+   * The next segment is reported once more without text and then removed
+   */
+  mergeWithNext(id: string): Promise<TranscriptSegment> {
+    return this.edit(id, async (segment, audioSegment) => {
+      const next = this.getNextSegment(id);
+      if (!next?.audioSegment || next.isProcessing || this.editing.has(next.id)) {
+        throw new Error('There is no finished segment after this one to merge with');
+      }
+
+      const nextAudio = next.audioSegment;
+      // 下一段開頭與這一段結尾重疊的音訊只保留一次
+      const repeated = Math.max(0, audioSegment.startTime + audioSegment.duration - nextAudio.startTime);
+      const audioBlob = await WavEncoder.concat(audioSegment.audioBlob, nextAudio.audioBlob, repeated);
+
+      Object.assign(segment, mergeContent(segment, next));
+      segment.endTime = next.endTime;
+      segment.flagged = segment.flagged ?? next.flagged;
+      segment.audioSegment = {
+        ...audioSegment,
+        audioBlob,
+        duration: audioSegment.duration + Math.max(0, nextAudio.duration - repeated)
+      };
+
+      this.deleteSegment(next.id);
+      if (this.lastCompleted === next) {
+        this.lastCompleted = segment;
+      }
+
+      next.text = '';
+      next.translation = undefined;
+      this.options.onSegmentUpdate?.(segment);
+      this.options.onSegmentUpdate?.(next);
+      return segment;
+    });
+  }
+
+  /**
+   * The segment after this one in the same recording, the one mergeWithNext() joins
+   */
+  getNextSegment(id: string): TranscriptSegment | undefined {
+    const segment = this.segments.get(id);
+    if (!segment) return undefined;
+
+    const siblings = this.getSessionSegments(segment);
+    return siblings[siblings.indexOf(segment) + 1];
+  }
+
   deleteSegment(id: string): boolean {
+    // sessionOf 保留，復原刪除的片段時仍知道它屬於哪次錄音
     return this.segments.delete(id);
   }
 
   clearAllSegments(): void {
     this.segments.clear();
+    this.sessionOf.clear();
+  }
+
+  // 只有還留著音訊、已轉錄完成的片段能編輯；同一片段一次只做一件事
+  private async edit<T>(
+    id: string,
+    run: (segment: TranscriptSegment, audioSegment: AudioSegment) => Promise<T>
+  ): Promise<T> {
+    const segment = this.segments.get(id);
+    if (!segment?.audioSegment) {
+      throw new Error('The audio of this segment is no longer available');
+    }
+    if (segment.isProcessing || this.editing.has(id)) {
+      throw new Error('The segment is still being transcribed');
+    }
+
+    this.editing.add(id);
+    try {
+      return await run(segment, segment.audioSegment);
+    } finally {
+      this.editing.delete(id);
+    }
+  }
+
+  // 同一次錄音中前後相鄰的片段
+  private getPreviousSegment(segment: TranscriptSegment): TranscriptSegment | undefined {
+    const siblings = this.getSessionSegments(segment);
+    return siblings[siblings.indexOf(segment) - 1];
+  }
+
+  private getSessionSegments(segment: TranscriptSegment): TranscriptSegment[] {
+    const session = this.sessionOf.get(segment.id);
+    return this.getAllSegments().filter(s => this.sessionOf.get(s.id) === session);
   }
 
   exportTranscript(options: {
     includeTimestamps?: boolean;
-    format?: 'text' | 'json';
+    format?: TranscriptExportFormat;
   } = {}): string {
-    const segments = this.getAllSegments().filter(s => !s.isProcessing);
-    
-    if (options.format === 'json') {
-      return JSON.stringify(segments, null, 2);
-    }
-
-    // Text format
-    return segments
-      .map(segment => {
-        const timestamp = options.includeTimestamps 
-          ? `[${segment.timestamp.toLocaleTimeString()}] `
-          : '';
-        return `${timestamp}${segment.text}`;
-      })
-      .join('\n');
+    return formatTranscript(this.getAllSegments(), options.format ?? 'text', {
+      includeTimestamps: options.includeTimestamps
+    });
   }
 
   updateSettings(settings: {
-    apiKey?: string;
-    segmentDuration?: number;
-    silenceThreshold?: number;
+    provider?: TranscriptionProvider;
     whisperOptions?: WhisperOptions;
+    translationMode?: TranslationMode | null;
+    maxConcurrentRequests?: number;
   }): void {
-    if (settings.apiKey) {
-      this.whisperAPI.updateApiKey(settings.apiKey);
+    if (settings.provider) {
+      this.whisperAPI.updateProvider(settings.provider);
     }
 
-    if (settings.segmentDuration || settings.silenceThreshold) {
-      this.audioRecorder.updateSettings({
-        segmentDuration: settings.segmentDuration,
-        silenceThreshold: settings.silenceThreshold
-      });
+    if (settings.maxConcurrentRequests) {
+      this.whisperAPI.setMaxConcurrent(settings.maxConcurrentRequests);
     }
 
     if (settings.whisperOptions) {
       this.options.whisperOptions = { ...this.options.whisperOptions, ...settings.whisperOptions };
     }
-  }
 
-  getCurrentAudioLevel(): number {
-    return this.audioRecorder.getCurrentAudioLevel();
+    // null 代表關閉翻譯
+    if (settings.translationMode !== undefined) {
+      this.options.translationMode = settings.translationMode ?? undefined;
+    }
   }
 
   getProcessingQueueLength(): number {
@@ -189,18 +584,9 @@ export class SegmentManager {
   }
 
   dispose(): void {
-    this.audioRecorder.dispose();
     this.whisperAPI.clearQueue();
     this.segments.clear();
-    this.isInitialized = false;
-  }
-
-  get recording(): boolean {
-    return this.audioRecorder.recording;
-  }
-
-  get initialized(): boolean {
-    return this.isInitialized;
+    this.sessionOf.clear();
   }
 
   get processing(): boolean {
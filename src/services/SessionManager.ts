@@ -0,0 +1,455 @@
+import { TFile, moment, normalizePath, type App } from 'obsidian';
+import type { RecordingPause, TranscriptCue, TranscriptSegment } from './SegmentManager';
+import { getAudioFileExtension } from '../utils/AudioFileUtils';
+import { formatPauseDuration, formatTags, getSpeakerName, interleavePauses, type SpeakerNames } from '../utils/TranscriptFormatter';
+import { ensureFolder, getAvailablePath } from '../utils/VaultUtils';
+
+/**
+ * 錄音工作階段持久化
+ * 進行中的狀態與音訊分塊寫在外掛資料夾，結束時才合併成筆記與附件，
+ * 因此即使 Obsidian 中途當掉，下次開啟側邊欄時仍可復原
+ */
+
+export interface StoredSegment {
+  id: string;
+  timestamp: string;    // ISO string
+  text: string;
+  translation?: string;
+  startTime?: number;
+  endTime?: number;
+  cues?: TranscriptCue[];
+  speaker?: number;
+  tags?: string[];
+}
+
+export interface SessionState {
+  id: string;
+  title: string;
+  notePath: string;
+  startTime: string;    // ISO string
+  endTime?: string;
+  language: string;
+  model: string;
+  audioMimeType: string;
+  audioPath?: string;
+  chunkCount: number;
+  status: 'recording' | 'complete';
+  recovered?: boolean;
+  speakerNames?: SpeakerNames;
+  pauses?: RecordingPause[];
+  segments: StoredSegment[];
+}
+
+export interface SessionManagerOptions {
+  app: App;
+  storageDir: string;           // 外掛資料夾內存放進行中資料的位置
+  getFolder: () => string;      // 筆記輸出資料夾
+}
+
+export interface SessionStartOptions {
+  language: string;
+  model: string;
+}
+
+const STATE_FILE = 'session.json';
+const SAVE_DELAY = 500; // ms
+
+export class SessionManager {
+  private options: SessionManagerOptions;
+
+  constructor(options: SessionManagerOptions) {
+    this.options = options;
+  }
+
+  async startSession(startOptions: SessionStartOptions): Promise<RecordingSession> {
+    const { app } = this.options;
+    const now = moment();
+    const id = `${now.format('YYYYMMDD-HHmmss')}-${Math.random().toString(36).substring(2, 7)}`;
+    const title = `Transcript ${now.format('YYYY-MM-DD HH-mm-ss')}`;
+
+    const folder = normalizePath(this.options.getFolder() || '/');
+    await ensureFolder(app, folder);
+
+    const state: SessionState = {
+      id,
+      title,
+      notePath: getAvailablePath(app, folder, title, 'md'),
+      startTime: now.toISOString(),
+      language: startOptions.language,
+      model: startOptions.model,
+      audioMimeType: 'audio/webm',
+      chunkCount: 0,
+      status: 'recording',
+      segments: []
+    };
+
+    await app.vault.adapter.mkdir(this.getSessionDir(id));
+
+    const session = new RecordingSession(app, this.getSessionDir(id), state);
+    await session.flush();
+    return session;
+  }
+
+  /**
+   * Sessions that were never finished (Obsidian closed or crashed mid-recording)
+   */
+  async listUnfinishedSessions(): Promise<SessionState[]> {
+    const { adapter } = this.options.app.vault;
+    const root = this.getSessionsRoot();
+
+    if (!(await adapter.exists(root))) {
+      return [];
+    }
+
+    const listing = await adapter.list(root);
+    const sessions: SessionState[] = [];
+
+    for (const dir of listing.folders) {
+      const statePath = normalizePath(`${dir}/${STATE_FILE}`);
+      try {
+        if (!(await adapter.exists(statePath))) continue;
+        const state = JSON.parse(await adapter.read(statePath)) as SessionState;
+        if (state.status === 'recording') {
+          sessions.push(state);
+        }
+      } catch (error) {
+        console.error('Failed to read session state:', statePath, error);
+      }
+    }
+
+    return sessions.sort((a, b) => a.startTime.localeCompare(b.startTime));
+  }
+
+  /**
+   * Finalize an unfinished session with whatever audio and text was saved
+   */
+  async recoverSession(state: SessionState): Promise<RecordingSession> {
+    const session = new RecordingSession(this.options.app, this.getSessionDir(state.id), state);
+    await session.finish({ recovered: true });
+    return session;
+  }
+
+  private getSessionsRoot(): string {
+    return normalizePath(`${this.options.storageDir}/sessions`);
+  }
+
+  private getSessionDir(id: string): string {
+    return normalizePath(`${this.getSessionsRoot()}/${id}`);
+  }
+}
+
+export class RecordingSession {
+  private app: App;
+  private dir: string;
+  private state: SessionState;
+  private writeChain: Promise<void> = Promise.resolve();
+  private saveTimer: number | null = null;
+  private discarded = false;
+
+  constructor(app: App, dir: string, state: SessionState) {
+    this.app = app;
+    this.dir = dir;
+    this.state = state;
+  }
+
+  /**
+   * Store one chunk of the continuous session recording
+   */
+  appendAudioChunk(chunk: Blob): Promise<void> {
+    return this.enqueueWrite(async () => {
+      if (this.state.status !== 'recording') return;
+
+      if (chunk.type) {
+        this.state.audioMimeType = chunk.type;
+      }
+
+      const index = this.state.chunkCount + 1;
+      const data = await chunk.arrayBuffer();
+      await this.app.vault.adapter.writeBinary(this.getChunkPath(index), data);
+      this.state.chunkCount = index;
+      await this.writeState();
+    });
+  }
+
+  /**
+   * Insert or update a transcript segment; processing and queued segments are ignored
+   */
+  updateSegment(segment: TranscriptSegment): void {
+    if (segment.isProcessing || segment.pending) return;
+
+    const stored: StoredSegment = {
+      id: segment.id,
+      timestamp: segment.timestamp.toISOString(),
+      text: segment.text,
+      translation: segment.translation,
+      startTime: segment.startTime,
+      endTime: segment.endTime,
+      cues: segment.cues,
+      speaker: segment.speaker,
+      tags: segment.tags
+    };
+
+    const index = this.state.segments.findIndex(s => s.id === segment.id);
+    if (index >= 0) {
+      this.state.segments[index] = stored;
+    } else {
+      this.state.segments.push(stored);
+      this.state.segments.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    }
+
+    this.scheduleSave();
+  }
+
+  /**
+   * Remove a segment (merged into the one before it)
+   */
+  removeSegment(id: string): void {
+    const count = this.state.segments.length;
+    this.state.segments = this.state.segments.filter(s => s.id !== id);
+    if (this.state.segments.length !== count) {
+      this.scheduleSave();
+    }
+  }
+
+  /**
+   * Close the session: join audio chunks into an attachment and write the final note
+   */
+  async finish(options: { recovered?: boolean } = {}): Promise<TFile | null> {
+    this.clearSaveTimer();
+
+    let note: TFile | null = null;
+    await this.enqueueWrite(async () => {
+      if (this.state.status === 'complete') return;
+
+      this.state.status = 'complete';
+      this.state.recovered = options.recovered || undefined;
+      this.state.endTime = this.state.endTime ?? this.getLastActivityTime(options.recovered);
+
+      await this.writeAudioAttachment();
+      note = await this.writeNote();
+      await this.app.vault.adapter.rmdir(this.dir, true);
+    });
+
+    return note;
+  }
+
+  /**
+   * Throw the session away: its note, audio attachment and saved chunks go to the trash
+   */
+  async discard(): Promise<void> {
+    this.clearSaveTimer();
+    this.discarded = true;
+
+    await this.enqueueWrite(async () => {
+      const wasRecording = this.state.status === 'recording';
+      this.state.status = 'complete';
+
+      for (const path of [this.state.notePath, this.state.audioPath]) {
+        const file = path ? this.app.vault.getAbstractFileByPath(path) : null;
+        if (file instanceof TFile) {
+          await this.app.fileManager.trashFile(file);
+        }
+      }
+      if (wasRecording) {
+        await this.app.vault.adapter.rmdir(this.dir, true);
+      }
+    });
+  }
+
+  /**
+   * Write state and note immediately
+   */
+  flush(): Promise<void> {
+    this.clearSaveTimer();
+    return this.enqueueWrite(async () => {
+      // 已丟棄的工作階段不再寫回筆記
+      if (this.discarded) return;
+      await this.writeState();
+      await this.writeNote();
+    });
+  }
+
+  getSegments(): TranscriptSegment[] {
+    return this.state.segments.map(segment => ({
+      id: segment.id,
+      timestamp: new Date(segment.timestamp),
+      text: segment.text,
+      translation: segment.translation,
+      startTime: segment.startTime,
+      endTime: segment.endTime,
+      cues: segment.cues,
+      speaker: segment.speaker,
+      tags: segment.tags,
+      isProcessing: false
+    }));
+  }
+
+  /**
+   * Mark where the recording was paused and for how long
+   */
+  addPause(pause: RecordingPause): void {
+    this.state.pauses = [...(this.state.pauses ?? []), pause];
+    this.scheduleSave();
+  }
+
+  getPauses(): RecordingPause[] {
+    return [...(this.state.pauses ?? [])];
+  }
+
+  /**
+   * Rename speakers for the whole session
+   */
+  setSpeakerNames(names: SpeakerNames): void {
+    this.state.speakerNames = { ...names };
+    this.scheduleSave();
+  }
+
+  getSpeakerNames(): SpeakerNames {
+    return { ...this.state.speakerNames };
+  }
+
+  get id(): string {
+    return this.state.id;
+  }
+
+  get notePath(): string {
+    return this.state.notePath;
+  }
+
+  get title(): string {
+    return this.state.title;
+  }
+
+  private scheduleSave(): void {
+    if (this.discarded) return;
+    this.clearSaveTimer();
+    this.saveTimer = window.setTimeout(() => {
+      this.saveTimer = null;
+      void this.flush();
+    }, SAVE_DELAY);
+  }
+
+  private clearSaveTimer(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+  }
+
+  private enqueueWrite(task: () => Promise<void>): Promise<void> {
+    this.writeChain = this.writeChain
+      .then(task)
+      .catch(error => console.error('Failed to persist recording session:', error));
+    return this.writeChain;
+  }
+
+  private async writeState(): Promise<void> {
+    // 結束後資料夾已刪除，只需再更新筆記
+    if (this.state.status !== 'recording') return;
+
+    await this.app.vault.adapter.write(
+      normalizePath(`${this.dir}/${STATE_FILE}`),
+      JSON.stringify(this.state, null, 2)
+    );
+  }
+
+  private async writeAudioAttachment(): Promise<void> {
+    if (this.state.chunkCount === 0) return;
+
+    const { adapter } = this.app.vault;
+    const parts: ArrayBuffer[] = [];
+    for (let i = 1; i <= this.state.chunkCount; i++) {
+      const chunkPath = this.getChunkPath(i);
+      if (await adapter.exists(chunkPath)) {
+        parts.push(await adapter.readBinary(chunkPath));
+      }
+    }
+
+    if (parts.length === 0) return;
+
+    // 同一個 MediaRecorder 以 timeslice 產生的分塊可直接串接成完整檔案
+    const joined = await new Blob(parts, { type: this.state.audioMimeType }).arrayBuffer();
+    const extension = getAudioFileExtension(this.state.audioMimeType);
+    const audioPath = await this.app.fileManager.getAvailablePathForAttachment(
+      `${this.state.title}.${extension}`,
+      this.state.notePath
+    );
+
+    const audioFile = await this.app.vault.createBinary(audioPath, joined);
+    this.state.audioPath = audioFile.path;
+  }
+
+  private async writeNote(): Promise<TFile> {
+    const content = this.renderNote();
+    const existing = this.app.vault.getAbstractFileByPath(this.state.notePath);
+
+    if (existing instanceof TFile) {
+      await this.app.vault.modify(existing, content);
+      return existing;
+    }
+
+    return this.app.vault.create(this.state.notePath, content);
+  }
+
+  private renderNote(): string {
+    const { state } = this;
+    const start = moment(state.startTime);
+    const end = state.endTime ? moment(state.endTime) : null;
+
+    const frontmatter = [
+      '---',
+      `start: ${start.format('YYYY-MM-DDTHH:mm:ss')}`,
+      `end: ${end ? end.format('YYYY-MM-DDTHH:mm:ss') : ''}`,
+      `duration: ${end ? formatDuration(end.diff(start, 'seconds')) : ''}`,
+      `language: ${state.language}`,
+      `model: ${JSON.stringify(state.model)}`,
+      `segments: ${state.segments.length}`,
+      `status: ${state.status}`
+    ];
+    if (state.recovered) {
+      frontmatter.push('recovered: true');
+    }
+    if (state.audioPath) {
+      frontmatter.push(`audio: ${JSON.stringify(`[[${state.audioPath}]]`)}`);
+    }
+    frontmatter.push('---', '');
+
+    const body: string[] = [];
+    if (state.audioPath) {
+      body.push(`![[${state.audioPath}]]`, '');
+    }
+    for (const entry of interleavePauses(state.segments, state.pauses)) {
+      if (entry.pause) {
+        body.push(`*Paused for ${formatPauseDuration(entry.pause.duration)}*`);
+        continue;
+      }
+      const { segment } = entry;
+      const speaker = segment.speaker !== undefined
+        ? `**${getSpeakerName(segment.speaker, state.speakerNames)}:** `
+        : '';
+      const text = `${speaker}${segment.text}${formatTags(segment.tags)}`;
+      body.push(segment.translation ? `${text}\n> ${segment.translation}` : text);
+    }
+
+    return frontmatter.join('\n') + body.join('\n') + '\n';
+  }
+
+  private getLastActivityTime(recovered?: boolean): string {
+    // 復原時無法得知真正結束時間，以最後一段轉錄時間近似
+    if (recovered && this.state.segments.length > 0) {
+      return this.state.segments[this.state.segments.length - 1].timestamp;
+    }
+    return new Date().toISOString();
+  }
+
+  private getChunkPath(index: number): string {
+    return normalizePath(`${this.dir}/chunk-${index.toString().padStart(5, '0')}.bin`);
+  }
+}
+
+function formatDuration(totalSeconds: number): string {
+  const hours = Math.floor(totalSeconds / 3600);
+  const mins = Math.floor((totalSeconds % 3600) / 60);
+  const secs = totalSeconds % 60;
+  return [hours, mins, secs].map(value => value.toString().padStart(2, '0')).join(':');
+}
@@ -0,0 +1,152 @@
+import type { VoiceFeatures } from './VoiceActivityDetector';
+
+/**
+ * 本地說話者分群
+ * 每個片段以有聲幀的 VoiceFeatures 與頻譜包絡組成特徵向量（embedding），
+ * 再以線上分群指派到最接近的說話者；距離超過門檻時視為新的說話者
+ */
+
+export interface SpeakerDiarizerOptions {
+  maxSpeakers: number;
+  threshold: number;      // 新說話者的最小距離
+}
+
+interface SpeakerCluster {
+  id: number;
+  centroid: number[];
+  count: number;
+}
+
+const ENVELOPE_BANDS = 12;
+const ENVELOPE_START_BIN = 1;        // 略過直流
+const ENVELOPE_BINS_PER_BAND = 4;    // FFT 256 @ 44.1 kHz 約涵蓋到 8 kHz
+const MIN_VOICED_FRAMES = 30;        // 10 ms 一幀，至少 0.3 秒有聲才計算
+const MAX_CENTROID_WEIGHT = 20;      // 讓中心點能隨時間緩慢漂移
+const LOG_FLOOR = 0.01;
+
+/**
+ * Collects voiced frames of one segment and turns them into an embedding
+ */
+export class SpeakerFeatureAccumulator {
+  private frameCount = 0;
+  private featureSums = new Float64Array(5);
+  private envelopeSums = new Float64Array(ENVELOPE_BANDS);
+
+  /**
+   * Add one analysis frame; call only for frames classified as voice
+   * @param features Features from VoiceActivityDetector
+   * @param spectrum Magnitude spectrum normalized to 0-1
+   */
+  addFrame(features: VoiceFeatures, spectrum: Float32Array): void {
+    const vector = [
+      Math.log(features.fundamentalEnergy + LOG_FLOOR),
+      Math.log(features.formantEnergy + LOG_FLOOR),
+      features.spectralCentroid,
+      features.spectralRolloff,
+      features.zeroCrossingRate
+    ];
+    vector.forEach((value, index) => this.featureSums[index] += value);
+
+    for (let band = 0; band < ENVELOPE_BANDS; band++) {
+      const start = ENVELOPE_START_BIN + band * ENVELOPE_BINS_PER_BAND;
+      let sum = 0;
+      for (let bin = start; bin < start + ENVELOPE_BINS_PER_BAND && bin < spectrum.length; bin++) {
+        sum += spectrum[bin];
+      }
+      this.envelopeSums[band] += Math.log(sum / ENVELOPE_BINS_PER_BAND + LOG_FLOOR);
+    }
+
+    this.frameCount++;
+  }
+
+  /**
+   * Embedding of the frames collected so far, or null when there wasn't enough voice
+   */
+  getEmbedding(): number[] | null {
+    if (this.frameCount < MIN_VOICED_FRAMES) return null;
+
+    const envelope = Array.from(this.envelopeSums, sum => sum / this.frameCount);
+    // 減去平均值，只保留包絡形狀，不受音量影響
+    const mean = envelope.reduce((sum, value) => sum + value, 0) / envelope.length;
+    const features = Array.from(this.featureSums, sum => sum / this.frameCount);
+
+    return [
+      ...envelope.map(value => value - mean),
+      features[1] - features[0],     // 共振峰與基頻能量比 (log)
+      features[2] * 4,               // 0-1 的特徵放大到與包絡相近的尺度
+      features[3] * 4,
+      features[4] * 4
+    ];
+  }
+
+  /**
+   * Return the embedding and start collecting the next segment
+   */
+  takeEmbedding(): number[] | null {
+    const embedding = this.getEmbedding();
+    this.reset();
+    return embedding;
+  }
+
+  reset(): void {
+    this.frameCount = 0;
+    this.featureSums.fill(0);
+    this.envelopeSums.fill(0);
+  }
+}
+
+/**
+ * Assigns segment embeddings to speakers numbered from 1
+ */
+export class SpeakerDiarizer {
+  private options: SpeakerDiarizerOptions;
+  private clusters: SpeakerCluster[] = [];
+
+  constructor(options: SpeakerDiarizerOptions) {
+    this.options = options;
+  }
+
+  /**
+   * @returns Speaker number for the embedding
+   */
+  assign(embedding: number[]): number {
+    let best: SpeakerCluster | null = null;
+    let bestDistance = Infinity;
+
+    for (const cluster of this.clusters) {
+      const distance = euclideanDistance(cluster.centroid, embedding);
+      if (distance < bestDistance) {
+        best = cluster;
+        bestDistance = distance;
+      }
+    }
+
+    const canAddSpeaker = this.clusters.length < Math.max(1, this.options.maxSpeakers);
+    if (!best || (bestDistance > this.options.threshold && canAddSpeaker)) {
+      const cluster: SpeakerCluster = { id: this.clusters.length + 1, centroid: [...embedding], count: 1 };
+      this.clusters.push(cluster);
+      return cluster.id;
+    }
+
+    best.count++;
+    const weight = Math.min(best.count, MAX_CENTROID_WEIGHT);
+    best.centroid = best.centroid.map((value, index) => value + (embedding[index] - value) / weight);
+    return best.id;
+  }
+
+  get speakerCount(): number {
+    return this.clusters.length;
+  }
+
+  reset(): void {
+    this.clusters = [];
+  }
+}
+
+function euclideanDistance(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    sum += (a[i] - b[i]) * (a[i] - b[i]);
+  }
+  return Math.sqrt(sum);
+}
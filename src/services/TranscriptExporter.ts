@@ -0,0 +1,34 @@
+import { moment, normalizePath, type App, type TFile } from 'obsidian';
+import type { TranscriptSegment } from './SegmentManager';
+import { EXPORT_FORMATS, formatTranscript, type SessionPauses, type SpeakerNames, type TranscriptExportFormat } from '../utils/TranscriptFormatter';
+import { ensureFolder, getAvailablePath } from '../utils/VaultUtils';
+
+export interface TranscriptExportOptions {
+  folder: string;
+  baseName?: string;    // 預設為 "Transcript YYYY-MM-DD HH-mm-ss"
+  speakerNames?: SpeakerNames;
+  sessions?: SessionPauses[];   // 每個工作階段的暫停與其片段
+}
+
+/**
+ * Write the transcript into the vault in the given format
+ * @returns The created file
+ */
+export async function exportTranscriptToVault(
+  app: App,
+  segments: TranscriptSegment[],
+  format: TranscriptExportFormat,
+  options: TranscriptExportOptions
+): Promise<TFile> {
+  const folder = normalizePath(options.folder || '/');
+  await ensureFolder(app, folder);
+
+  const baseName = options.baseName ?? `Transcript ${moment().format('YYYY-MM-DD HH-mm-ss')}`;
+  const path = getAvailablePath(app, folder, baseName, EXPORT_FORMATS[format].extension);
+
+  return app.vault.create(path, formatTranscript(segments, format, {
+    includeTimestamps: true,
+    speakerNames: options.speakerNames,
+    sessions: options.sessions
+  }));
+}
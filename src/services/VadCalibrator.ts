@@ -0,0 +1,218 @@
+import { AudioSourceManager, RAW_MICROPHONE_CONSTRAINTS } from './AudioSourceManager';
+import { DEFAULT_DETECTION_THRESHOLDS, VoiceActivityDetector, type AnalysisInfo, type VoiceDetectionThresholds } from './VoiceActivityDetector';
+import type { VoiceTranscriberSettings } from '../settings/PluginSettings';
+
+/**
+ * 語音檢測校準
+ * 分別錄下環境噪音與說話聲，依兩者的音量與置信度分佈推算檢測閾值，
+ * 結果依輸入裝置保存（開放式辦公室與安靜錄音室需要完全不同的靈敏度）
+ */
+
+export interface VadCalibration {
+  label: string;                // 校準時的裝置名稱
+  calibratedAt: number;
+  minVoiceEnergy: number;
+  minAudioLevel: number;
+  confidenceThreshold: number;
+}
+
+export interface CalibrationSample {
+  energy: number;
+  level: number;              // 0-100, 與 VoiceDetectionResult.audioLevel 相同
+  confidence: number;
+  isHumanVoice: boolean;
+}
+
+const SAMPLE_INTERVAL = 10;        // ms, 與錄音時的檢測頻率相同
+const LEVEL_MARGIN = 0.3;          // 閾值落在噪音上緣到說話中位數之間的位置
+const MIN_LEVEL_GAP = 5;           // 說話中位數至少要比噪音上緣高出的級別
+const MIN_VOICED_FRAMES = 0.1;     // 說話錄音中至少要有這個比例被判定為人聲
+
+/**
+ * Key under which a device's calibration is stored
+ */
+export function getCalibrationKey(deviceId: string): string {
+  return deviceId || 'default';
+}
+
+/**
+ * Thresholds for the configured input device: calibration first, then the global settings
+ */
+export function getVoiceThresholds(settings: VoiceTranscriberSettings): VoiceDetectionThresholds {
+  const thresholds: VoiceDetectionThresholds = {
+    ...DEFAULT_DETECTION_THRESHOLDS,
+    minAudioLevel: settings.minAudioLevel,
+    confidenceThreshold: settings.voiceConfidenceThreshold,
+    voiceFormantRatio: settings.voiceFormantRatio,
+    voiceZcrRange: settings.voiceZcrRange,
+    bands: {
+      fundamental: { low: settings.voiceFundamentalBand[0], high: settings.voiceFundamentalBand[1] },
+      formants: { low: settings.voiceFormantBand[0], high: settings.voiceFormantBand[1] },
+      highFreq: { low: settings.computerAudioCutoff, high: Infinity }
+    }
+  };
+
+  // 只聽系統音訊時麥克風的校準不適用
+  const calibration = settings.audioSource === 'system'
+    ? undefined
+    : settings.vadCalibrations[getCalibrationKey(settings.audioDeviceId)];
+  if (!calibration) return thresholds;
+
+  return {
+    ...thresholds,
+    minVoiceEnergy: calibration.minVoiceEnergy,
+    minAudioLevel: calibration.minAudioLevel,
+    confidenceThreshold: calibration.confidenceThreshold
+  };
+}
+
+/**
+ * Derive thresholds from room noise and speech recorded on the same device
+ * @throws When the speech was not clearly distinguishable from the noise
+ */
+export function deriveThresholds(noise: CalibrationSample[], speech: CalibrationSample[]): Omit<VadCalibration, 'label' | 'calibratedAt'> {
+  if (noise.length === 0 || speech.length === 0) {
+    throw new Error('No audio was recorded. Check that the microphone is connected.');
+  }
+
+  const noiseLevel = percentile(noise.map(sample => sample.level), 0.95);
+  const speechLevel = percentile(speech.map(sample => sample.level), 0.5);
+  if (speechLevel - noiseLevel < MIN_LEVEL_GAP) {
+    throw new Error('Speech was not clearly louder than the background. Speak closer to the microphone and try again.');
+  }
+
+  const minAudioLevel = clamp(noiseLevel + (speechLevel - noiseLevel) * LEVEL_MARGIN, 1, 95);
+
+  // 只看音量超過閾值的說話幀：其中大部分應被判定為人聲
+  const loud = speech.filter(sample => sample.level > minAudioLevel);
+  const voiced = loud.filter(sample => sample.isHumanVoice);
+  if (voiced.length < speech.length * MIN_VOICED_FRAMES) {
+    throw new Error('No speech was recognized in the recording. Speak continuously during the second step and try again.');
+  }
+
+  const confidenceThreshold = clamp(percentile(voiced.map(sample => sample.confidence), 0.2) - 0.05, 0.1, 0.6);
+
+  // 低於一般噪音能量的幀直接略過分類
+  const noiseEnergy = percentile(noise.map(sample => sample.energy), 0.5);
+  const minVoiceEnergy = Math.min(noiseEnergy, minAudioLevel / 1000);
+
+  return {
+    minVoiceEnergy: round(minVoiceEnergy, 4),
+    minAudioLevel: round(minAudioLevel, 1),
+    confidenceThreshold: round(confidenceThreshold, 2)
+  };
+}
+
+export class VadCalibrator {
+  private settings: VoiceTranscriberSettings;
+  private sources: AudioSourceManager | null = null;
+  private context: AudioContext | null = null;
+  private detector: VoiceActivityDetector | null = null;
+  private timer: number | null = null;
+
+  constructor(settings: VoiceTranscriberSettings) {
+    this.settings = settings;
+  }
+
+  /**
+   * Open the configured microphone with the same processing as the recorder
+   */
+  async open(): Promise<void> {
+    if (this.detector) return;
+
+    this.sources = new AudioSourceManager({
+      // 校準的對象一律是麥克風
+      getSettings: () => ({ ...this.settings, audioSource: 'microphone' }),
+      microphoneConstraints: RAW_MICROPHONE_CONSTRAINTS
+    });
+
+    try {
+      const stream = await this.sources.open();
+      this.context = new AudioContext();
+      const analyser = this.context.createAnalyser();
+      analyser.fftSize = this.settings.vadFftSize;
+      analyser.smoothingTimeConstant = 0.8;
+      this.context.createMediaStreamSource(stream).connect(analyser);
+
+      // 頻段與特徵閾值沿用設定；不設能量下限，每一幀都要分類
+      this.detector = new VoiceActivityDetector(analyser, { ...getVoiceThresholds(this.settings), minVoiceEnergy: 0 });
+    } catch (error) {
+      this.close();
+      throw error;
+    }
+  }
+
+  /**
+   * Collect detection samples for a while
+   * @param onProgress Called with the elapsed share (0-1) and the current level
+   */
+  record(seconds: number, onProgress?: (progress: number, level: number) => void): Promise<CalibrationSample[]> {
+    const detector = this.detector;
+    if (!detector) {
+      return Promise.reject(new Error('VadCalibrator is not open'));
+    }
+
+    this.stopTimer();
+    const samples: CalibrationSample[] = [];
+    const startedAt = Date.now();
+
+    return new Promise(resolve => {
+      this.timer = window.setInterval(() => {
+        const result = detector.detectVoiceActivity();
+        samples.push({
+          energy: result.features.shortTimeEnergy,
+          level: result.audioLevel,
+          confidence: result.confidence,
+          isHumanVoice: result.isHumanVoice
+        });
+
+        const progress = Math.min(1, (Date.now() - startedAt) / (seconds * 1000));
+        onProgress?.(progress, result.audioLevel);
+        if (progress >= 1) {
+          this.stopTimer();
+          resolve(samples);
+        }
+      }, SAMPLE_INTERVAL);
+    });
+  }
+
+  /**
+   * Sample rate and FFT bins of the open microphone, shown with the result
+   */
+  get analysisInfo(): AnalysisInfo | null {
+    return this.detector?.getAnalysisInfo() ?? null;
+  }
+
+  close(): void {
+    this.stopTimer();
+    this.detector = null;
+    if (this.context) {
+      void this.context.close();
+      this.context = null;
+    }
+    this.sources?.close();
+    this.sources = null;
+  }
+
+  private stopTimer(): void {
+    if (this.timer !== null) {
+      window.clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+function percentile(values: number[], share: number): number {
+  const sorted = values.slice().sort((a, b) => a - b);
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.round((sorted.length - 1) * share)));
+  return sorted[index];
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function round(value: number, digits: number): number {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,64 @@
+import { TFile, normalizePath, type App } from 'obsidian';
+import type { VoiceTranscriberSettings } from '../settings/PluginSettings';
+import { buildTranscriptionPrompt, parseGlossary } from '../utils/PromptBuilder';
+
+/**
+ * 自訂詞彙
+ * 合併設定中的詞彙表與保險庫中的詞彙表筆記，組成送給 Whisper 的 prompt
+ */
+export class Vocabulary {
+  private app: App;
+  private getSettings: () => VoiceTranscriberSettings;
+  private noteCache: { path: string; mtime: number; terms: string[] } | null = null;
+
+  constructor(app: App, getSettings: () => VoiceTranscriberSettings) {
+    this.app = app;
+    this.getSettings = getSettings;
+  }
+
+  /**
+   * Terms from settings followed by terms from the glossary note
+   */
+  async getTerms(): Promise<string[]> {
+    const settings = this.getSettings();
+    const terms = parseGlossary(settings.glossary);
+    const noteTerms = await this.readGlossaryNote(settings.glossaryNotePath);
+    return Array.from(new Set([...terms, ...noteTerms]));
+  }
+
+  /**
+   * Prompt for the next segment
+   * @param previousText Text of the previous segment, used as rolling context when enabled
+   */
+  async buildPrompt(previousText?: string): Promise<string | undefined> {
+    return (await this.createPromptBuilder())(previousText);
+  }
+
+  /**
+   * Read the terms once and build prompts from them synchronously
+   * (the previous text is only known when the request is sent)
+   */
+  async createPromptBuilder(): Promise<(previousText?: string) => string | undefined> {
+    const settings = this.getSettings();
+    const terms = await this.getTerms();
+    return (previousText) => buildTranscriptionPrompt(terms, settings.useRollingContext ? previousText : undefined);
+  }
+
+  private async readGlossaryNote(notePath: string): Promise<string[]> {
+    if (!notePath.trim()) return [];
+
+    const path = normalizePath(notePath.endsWith('.md') ? notePath : `${notePath}.md`);
+    const file = this.app.vault.getAbstractFileByPath(path);
+    if (!(file instanceof TFile)) return [];
+
+    // 筆記未修改時沿用上次解析結果
+    if (this.noteCache?.path === path && this.noteCache.mtime === file.stat.mtime) {
+      return this.noteCache.terms;
+    }
+
+    const content = await this.app.vault.cachedRead(file);
+    const terms = parseGlossary(content.replace(/^---\n[\s\S]*?\n---\n/, ''));
+    this.noteCache = { path, mtime: file.stat.mtime, terms };
+    return terms;
+  }
+}
@@ -27,20 +27,82 @@ export interface VoiceDetectionResult {
   audioLevel: number;            // 音頻級別 (0-100)
 }
 
+export interface VoiceDetectionThresholds {
+  minVoiceEnergy: number;             // 最小語音能量
+  voiceFormantRatio: number;          // 共振峰與基頻能量比
+  voiceZcrRange: [number, number];    // 語音過零率範圍
+  computerAudioHighFreqRatio: number; // 電腦音頻高頻比例
+  confidenceThreshold: number;        // 判定為說話的最低置信度
+  minAudioLevel: number;              // 判定為說話的最低音頻級別 (0-100)
+  bands: Record<VoiceBand, FrequencyBand>;  // 基頻、共振峰與高頻段 (Hz)
+}
+
+export interface FrequencyBand {
+  low: number;    // Hz
+  high: number;   // Hz, 超過 Nyquist 頻率時截到最後一個 bin
+}
+
+export interface BinRange {
+  start: number;
+  end: number;    // 含
+}
+
+export type VoiceBand = 'fundamental' | 'formants' | 'highFreq';
+
+export interface AnalysisInfo {
+  sampleRate: number;   // AudioContext 的實際採樣率
+  fftSize: number;
+  binWidth: number;     // Hz
+  bands: Record<VoiceBand, BinRange>;
+}
+
+// 語音特徵頻段 (Hz)，依實際採樣率與 FFT 大小換算成 bin
+export const VOICE_FREQUENCY_BANDS: Record<VoiceBand, FrequencyBand> = {
+  fundamental: { low: 85, high: 300 },      // 人聲基頻
+  formants: { low: 1000, high: 4000 },      // 人聲共振峰
+  highFreq: { low: 4000, high: Infinity }   // 4kHz以上
+};
+
+// 檢測閾值 (調整為更靈敏的參數)
+export const DEFAULT_DETECTION_THRESHOLDS: VoiceDetectionThresholds = {
+  minVoiceEnergy: 0.01,            // 降低最小語音能量閾值
+  voiceFormantRatio: 1.5,          // 降低語音共振峰比例要求
+  voiceZcrRange: [0.1, 0.5],       // 擴大語音過零率範圍
+  computerAudioHighFreqRatio: 0.5, // 提高電腦音頻高頻比例閾值
+  confidenceThreshold: 0.3,
+  minAudioLevel: 20,               // 過濾掉低於此級別的音頻
+  bands: VOICE_FREQUENCY_BANDS
+};
+
+export const FFT_SIZE_OPTIONS: Record<string, string> = {
+  '256': '256 (fastest)',
+  '512': '512',
+  '1024': '1024 (recommended)',
+  '2048': '2048 (finest)'
+};
+
+/**
+ * Bin range covering a frequency band
+ * @param sampleRate Sample rate of the AudioContext the analyser belongs to
+ * @param fftSize AnalyserNode.fftSize
+ */
+export function frequencyBandToBins(band: FrequencyBand, sampleRate: number, fftSize: number): BinRange {
+  const binWidth = sampleRate / fftSize;
+  const lastBin = fftSize / 2 - 1;
+
+  // 不含 DC (bin 0)；頻段窄於一個 bin 時至少保留一個
+  const start = Math.min(lastBin, Math.max(1, Math.round(band.low / binWidth)));
+  const end = Math.min(lastBin, Math.max(start, Math.round(band.high / binWidth)));
+  return { start, end };
+}
+
 export class VoiceActivityDetector {
   private analyser: AnalyserNode;
   private frequencyData: Uint8Array;
   private timeData: Uint8Array;
   
-  // 語音特徵檢測參數 (基於 44.1kHz 採樣率，FFT Size 256)
-  private readonly VOICE_FREQUENCY_BANDS = {
-    // 人聲基頻範圍 85-300Hz 對應的 bin 範圍
-    fundamental: { start: 1, end: 4 },    // ~86Hz - 344Hz
-    // 人聲共振峰範圍 1000-4000Hz 對應的 bin 範圍  
-    formants: { start: 12, end: 47 },     // ~1031Hz - 4031Hz
-    // 高頻範圍
-    highFreq: { start: 48, end: 127 }     // 4kHz以上
-  };
+  // 語音特徵頻段對應的 bin 範圍，依 analyser 的採樣率與 FFT 大小計算
+  private bands: Record<VoiceBand, BinRange>;
   
   // 自適應參數
   private backgroundNoiseLevel = 0;
@@ -49,29 +111,62 @@ export class VoiceActivityDetector {
   private previousSpectrum: Float32Array | null = null;
   private energyHistory: number[] = [];
   
-  // 檢測閾值 (調整為更靈敏的參數)
-  private readonly DETECTION_THRESHOLDS = {
-    minVoiceEnergy: 0.01,          // 降低最小語音能量閾值
-    voiceFormantRatio: 1.5,         // 降低語音共振峰比例要求
-    voiceZcrRange: [0.1, 0.5],     // 擴大語音過零率範圍
-    computerAudioHighFreqRatio: 0.5, // 提高電腦音頻高頻比例閾值
-    confidenceThreshold: 0.5,       // 降低最終置信度閾值
-    minAudioLevel: 20              // 最小音頻級別閾值 (0-100)
-  };
+  // 檢測閾值（可由設定或麥克風校準覆寫）
+  private thresholds: VoiceDetectionThresholds;
   
-  constructor(analyser: AnalyserNode) {
+  constructor(analyser: AnalyserNode, thresholds: Partial<VoiceDetectionThresholds> = {}) {
     this.analyser = analyser;
+    this.thresholds = { ...DEFAULT_DETECTION_THRESHOLDS, ...thresholds };
     this.frequencyData = new Uint8Array(analyser.frequencyBinCount);
     this.timeData = new Uint8Array(analyser.frequencyBinCount);
+    this.bands = this.resolveBands();
     
     // 初始化噪音估計緩衝區
     this.noiseEstimationBuffer = new Array(50).fill(0);
   }
   
+  /**
+   * 更新檢測閾值，未指定的項目使用預設值
+   */
+  setThresholds(thresholds: Partial<VoiceDetectionThresholds>): void {
+    this.thresholds = { ...DEFAULT_DETECTION_THRESHOLDS, ...thresholds };
+    this.bands = this.resolveBands();
+  }
+
+  getThresholds(): VoiceDetectionThresholds {
+    return { ...this.thresholds };
+  }
+
+  /**
+   * 檢測結果是否算是有人在說話（置信度與音量都要超過閾值）
+   */
+  isSpeech(result: VoiceDetectionResult): boolean {
+    return result.isHumanVoice &&
+      result.confidence > this.thresholds.confidenceThreshold &&
+      result.audioLevel > this.thresholds.minAudioLevel;
+  }
+  
+  /**
+   * Sample rate, FFT size and band bins the detector is currently working with
+   */
+  getAnalysisInfo(): AnalysisInfo {
+    const { sampleRate } = this.analyser.context;
+    const { fftSize } = this.analyser;
+    return { sampleRate, fftSize, binWidth: sampleRate / fftSize, bands: { ...this.bands } };
+  }
+  
   /**
    * 主要的語音活動檢測方法
    */
   detectVoiceActivity(): VoiceDetectionResult {
+    // analyser 的 fftSize 可能在錄音之間被改變
+    if (this.frequencyData.length !== this.analyser.frequencyBinCount) {
+      this.frequencyData = new Uint8Array(this.analyser.frequencyBinCount);
+      this.timeData = new Uint8Array(this.analyser.frequencyBinCount);
+      this.previousSpectrum = null;
+      this.bands = this.resolveBands();
+    }
+    
     // 獲取音頻數據
     this.analyser.getByteFrequencyData(this.frequencyData);
     this.analyser.getByteTimeDomainData(this.timeData);
@@ -116,14 +211,14 @@ export class VoiceActivityDetector {
     // 計算各頻段能量
     const fundamentalEnergy = this.calculateBandEnergy(
       spectrum, 
-      this.VOICE_FREQUENCY_BANDS.fundamental.start,
-      this.VOICE_FREQUENCY_BANDS.fundamental.end
+      this.bands.fundamental.start,
+      this.bands.fundamental.end
     );
     
     const formantEnergy = this.calculateBandEnergy(
       spectrum,
-      this.VOICE_FREQUENCY_BANDS.formants.start,
-      this.VOICE_FREQUENCY_BANDS.formants.end
+      this.bands.formants.start,
+      this.bands.formants.end
     );
     
     // 計算頻譜重心
@@ -219,7 +314,7 @@ export class VoiceActivityDetector {
     let confidence = 0;
     
     // 1. 基於能量的基本檢測
-    if (features.shortTimeEnergy < this.DETECTION_THRESHOLDS.minVoiceEnergy) {
+    if (features.shortTimeEnergy < this.thresholds.minVoiceEnergy) {
       return {
         isHumanVoice: false,
         isComputerAudio: false,
@@ -238,12 +333,12 @@ export class VoiceActivityDetector {
     
     // 共振峰特徵檢測 (人聲在 1-4kHz 有共振峰)
     const formantRatio = features.formantEnergy / (features.fundamentalEnergy + 0.001);
-    if (formantRatio > this.DETECTION_THRESHOLDS.voiceFormantRatio) {
+    if (formantRatio > this.thresholds.voiceFormantRatio) {
       humanVoiceScore += 0.4;
     }
     
     // 過零率檢測 (人聲過零率在特定範圍)
-    const [minZcr, maxZcr] = this.DETECTION_THRESHOLDS.voiceZcrRange;
+    const [minZcr, maxZcr] = this.thresholds.voiceZcrRange;
     if (features.zeroCrossingRate >= minZcr && features.zeroCrossingRate <= maxZcr) {
       humanVoiceScore += 0.2;
     }
@@ -258,12 +353,12 @@ export class VoiceActivityDetector {
     // 高頻能量檢測 (電腦音頻可能有更多高頻成分)
     const highFreqEnergy = this.calculateBandEnergy(
       new Float32Array(this.frequencyData.map(x => x / 255.0)),
-      this.VOICE_FREQUENCY_BANDS.highFreq.start,
-      this.VOICE_FREQUENCY_BANDS.highFreq.end
+      this.bands.highFreq.start,
+      this.bands.highFreq.end
     );
     
     const highFreqRatio = highFreqEnergy / (features.shortTimeEnergy + 0.001);
-    if (highFreqRatio > this.DETECTION_THRESHOLDS.computerAudioHighFreqRatio) {
+    if (highFreqRatio > this.thresholds.computerAudioHighFreqRatio) {
       computerAudioScore += 0.3;
     }
     
@@ -355,6 +450,20 @@ export class VoiceActivityDetector {
     return 1.0;
   }
   
+  /**
+   * 依 analyser 目前的採樣率與 FFT 大小換算頻段
+   */
+  private resolveBands(): Record<VoiceBand, BinRange> {
+    const { sampleRate } = this.analyser.context;
+    const { fftSize } = this.analyser;
+    const { bands } = this.thresholds;
+    return {
+      fundamental: frequencyBandToBins(bands.fundamental, sampleRate, fftSize),
+      formants: frequencyBandToBins(bands.formants, sampleRate, fftSize),
+      highFreq: frequencyBandToBins(bands.highFreq, sampleRate, fftSize)
+    };
+  }
+  
   /**
    * 更新背景噪音估計
    */
@@ -1,14 +1,30 @@
-import { requestUrl } from 'obsidian';
+import { obsidianHttpClient, type HttpClient, type HttpResponse } from './HttpClient';
+import type { TranscriptionEndpoint, TranscriptionProvider } from './providers/TranscriptionProvider';
+import type { TranslationMode } from '../settings/PluginSettings';
+import { getAudioFileExtension } from '../utils/AudioFileUtils';
+import { parseRateLimit, parseRetryAfter, parseRetryAfterHeader } from '../utils/RateLimitHeaders';
+
+export interface WhisperSegment {
+  start: number;    // seconds from the start of the uploaded audio
+  end: number;
+  text: string;
+  avg_logprob?: number;
+  no_speech_prob?: number;
+  compression_ratio?: number;
+}
+
+export interface WhisperWord {
+  word: string;
+  start: number;    // seconds from the start of the uploaded audio
+  end: number;
+}
 
 export interface WhisperResponse {
   text: string;
   language?: string;
   duration?: number;
-  segments?: Array<{
-    start: number;
-    end: number;
-    text: string;
-  }>;
+  segments?: WhisperSegment[];
+  words?: WhisperWord[];
 }
 
 export interface WhisperOptions {
@@ -17,165 +33,369 @@ export interface WhisperOptions {
   response_format?: 'json' | 'text' | 'verbose_json';
   temperature?: number;
   prompt?: string;
+  resolvePrompt?: () => string | undefined;   // 每次送出請求時才建立 prompt，優先於 prompt
+  timestamp_granularities?: Array<'word' | 'segment'>;   // 只適用於 verbose_json 的轉錄端點
+}
+
+export interface SegmentTranscription {
+  text: string;
+  translation?: string;   // 只在 'both' 模式下有值
+  language?: string;
+  duration?: number;
+  segments?: WhisperSegment[];
+  words?: WhisperWord[];    // 只有要求逐字時間戳且為原文轉錄時才有
+}
+
+export interface WhisperAPIOptions {
+  http?: HttpClient;        // 預設為 Obsidian 的 requestUrl
+  timeout?: number;         // ms per attempt
+  retryDelay?: number;      // ms before the first retry, doubled on each attempt
+  maxConcurrent?: number;   // requests in flight at once
+}
+
+/**
+ * A failed transcription request, classified by status code rather than by message
+ */
+export class TranscriptionRequestError extends Error {
+  readonly status?: number;
+  readonly retryable: boolean;
+  readonly retryAfter?: number;   // ms the server asked us to wait
+
+  constructor(message: string, options: { status?: number; retryable: boolean; retryAfter?: number }) {
+    super(message);
+    this.name = 'TranscriptionRequestError';
+    this.status = options.status;
+    this.retryable = options.retryable;
+    this.retryAfter = options.retryAfter;
+  }
+}
+
+// 暫時性的伺服器錯誤；其他 4xx 重送也不會成功
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+
+interface QueuedRequest {
+  audioBlob: Blob;
+  endpoint: TranscriptionEndpoint;
+  options: WhisperOptions;
+  attempt: number;
+  notBefore: number;    // epoch ms; 重試前的等待
+  resolve: (result: WhisperResponse) => void;
+  reject: (error: Error) => void;
 }
 
 export class WhisperAPI {
-  private apiKey: string;
-  private baseURL: string = 'https://api.openai.com/v1';
-  private requestQueue: Array<{
-    audioBlob: Blob;
-    options: WhisperOptions;
-    resolve: (result: WhisperResponse) => void;
-    reject: (error: Error) => void;
-  }> = [];
-  private isProcessing = false;
+  private provider: TranscriptionProvider;
+  private http: HttpClient;
+  private requestQueue: QueuedRequest[] = [];
+  private active = 0;
+  private maxConcurrent = 3;
+  private concurrency = 3;      // 遇到 429 減半，成功後逐步回升到 maxConcurrent
+  private pausedUntil = 0;      // 額度用完時整個佇列暫停到這個時間
+  private wakeTimer: ReturnType<typeof setTimeout> | null = null;
+  private wakeAt = 0;
   private maxRetries = 3;
   private retryDelay = 1000; // 1 second
+  private timeout = 120000;
 
-  constructor(apiKey: string) {
-    this.apiKey = apiKey;
+  constructor(provider: TranscriptionProvider, options: WhisperAPIOptions = {}) {
+    this.provider = provider;
+    this.http = options.http ?? obsidianHttpClient;
+    this.retryDelay = options.retryDelay ?? this.retryDelay;
+    this.timeout = options.timeout ?? this.timeout;
+    this.setMaxConcurrent(options.maxConcurrent ?? this.maxConcurrent);
   }
 
   async transcribe(audioBlob: Blob, options: WhisperOptions = {}): Promise<WhisperResponse> {
+    return this.enqueue(audioBlob, 'transcriptions', options);
+  }
+
+  /**
+   * Translate speech in any language into English text via `/audio/translations`
+   */
+  async translate(audioBlob: Blob, options: WhisperOptions = {}): Promise<WhisperResponse> {
+    return this.enqueue(audioBlob, 'translations', options);
+  }
+
+  /**
+   * Transcribe a segment according to the translation mode
+   * - undefined: original language only
+   * - 'translate': English translation replaces the text
+   * - 'both': original text plus English translation
+   */
+  async transcribeSegment(
+    audioBlob: Blob,
+    options: WhisperOptions = {},
+    translationMode?: TranslationMode
+  ): Promise<SegmentTranscription> {
+    if (translationMode === 'translate') {
+      const translated = await this.translate(audioBlob, options);
+      return this.toSegmentTranscription(translated);
+    }
+
+    if (translationMode === 'both') {
+      const [original, translated] = await Promise.all([
+        this.transcribe(audioBlob, options),
+        this.translate(audioBlob, options)
+      ]);
+      return {
+        ...this.toSegmentTranscription(original),
+        translation: translated.text.trim() || undefined
+      };
+    }
+
+    const original = await this.transcribe(audioBlob, options);
+    return this.toSegmentTranscription(original);
+  }
+
+  private toSegmentTranscription(response: WhisperResponse): SegmentTranscription {
+    return {
+      text: response.text.trim(),
+      language: response.language,
+      duration: response.duration,
+      segments: response.segments,
+      words: response.words
+    };
+  }
+
+  private enqueue(
+    audioBlob: Blob,
+    endpoint: TranscriptionEndpoint,
+    options: WhisperOptions
+  ): Promise<WhisperResponse> {
     return new Promise((resolve, reject) => {
       this.requestQueue.push({
         audioBlob,
+        endpoint,
         options: {
-          model: 'whisper-1',
+          model: this.provider.getDefaultModel(),
           response_format: 'json',
           ...options
         },
+        attempt: 0,
+        notBefore: 0,
         resolve,
         reject
       });
 
-      void this.processQueue();
+      this.processQueue();
     });
   }
 
-  private async processQueue(): Promise<void> {
-    if (this.isProcessing || this.requestQueue.length === 0) {
-      return;
+  /**
+   * Start queued requests until the concurrency limit is reached
+   * Requests start in the order they were queued; a retried request goes back to the front
+   */
+  private processQueue(): void {
+    while (this.active < this.concurrency && this.requestQueue.length > 0) {
+      const now = Date.now();
+      const ready = now >= this.pausedUntil
+        ? this.requestQueue.findIndex(request => request.notBefore <= now)
+        : -1;
+
+      if (ready === -1) {
+        this.scheduleWake(now);
+        return;
+      }
+
+      const [request] = this.requestQueue.splice(ready, 1);
+      this.active++;
+      void this.run(request);
     }
+  }
 
-    this.isProcessing = true;
+  private scheduleWake(now: number): void {
+    const next = Math.min(...this.requestQueue.map(request => request.notBefore));
+    const wakeAt = Math.max(this.pausedUntil, next);
+    if (this.wakeTimer !== null) {
+      if (this.wakeAt <= wakeAt) return;
+      clearTimeout(this.wakeTimer);
+    }
 
-    while (this.requestQueue.length > 0) {
-      const request = this.requestQueue.shift();
-      if (!request) continue;
+    this.wakeAt = wakeAt;
+    this.wakeTimer = setTimeout(() => {
+      this.wakeTimer = null;
+      this.processQueue();
+    }, Math.max(0, wakeAt - now));
+  }
 
-      try {
-        const result = await this.makeTranscriptionRequest(
-          request.audioBlob,
-          request.options
-        );
-        request.resolve(result);
-      } catch (error) {
-        request.reject(error as Error);
+  private async run(request: QueuedRequest): Promise<void> {
+    try {
+      const result = await this.makeTranscriptionRequest(request.audioBlob, request.endpoint, request.options);
+      if (this.concurrency < this.maxConcurrent) {
+        this.concurrency++;
       }
+      request.resolve(result);
+    } catch (error) {
+      const failure = error as Error;
+      if (request.attempt < this.maxRetries && this.isRetryable(failure)) {
+        this.scheduleRetry(request, failure);
+      } else {
+        request.reject(failure);
+      }
+    } finally {
+      this.active--;
+      this.processQueue();
+    }
+  }
 
-      // Small delay between requests to avoid rate limiting
-      await this.delay(200);
+  private scheduleRetry(request: QueuedRequest, error: Error): void {
+    const retryAfter = error instanceof TranscriptionRequestError ? error.retryAfter : undefined;
+    const wait = retryAfter ?? this.retryDelay * Math.pow(2, request.attempt);
+
+    // 額度是整個帳號共用的：暫停所有請求並降低並行數
+    if (error instanceof TranscriptionRequestError && error.status === 429) {
+      this.pausedUntil = Math.max(this.pausedUntil, Date.now() + wait);
+      this.concurrency = Math.max(1, Math.floor(this.concurrency / 2));
     }
 
-    this.isProcessing = false;
+    request.attempt++;
+    request.notBefore = Date.now() + wait;
+    this.requestQueue.unshift(request);
+  }
+
+  private isRetryable(error: Error): boolean {
+    // 不是 HTTP 回應造成的錯誤（連線中斷、DNS 等）都值得重試
+    return error instanceof TranscriptionRequestError ? error.retryable : true;
   }
 
   private async makeTranscriptionRequest(
     audioBlob: Blob,
-    options: WhisperOptions,
-    retryCount = 0
+    endpoint: TranscriptionEndpoint,
+    options: WhisperOptions
   ): Promise<WhisperResponse> {
-    try {
-      const formData = new FormData();
-      
-      // Convert blob to file with proper extension
-      const audioFile = new File([audioBlob], `audio.${this.getFileExtension(audioBlob)}`, {
-        type: audioBlob.type
+    const formData = new FormData();
+    
+    // Convert blob to file with proper extension
+    const audioFile = new File([audioBlob], `audio.${getAudioFileExtension(audioBlob.type)}`, {
+      type: audioBlob.type
+    });
+    
+    formData.append('file', audioFile);
+    formData.append('model', options.model || this.provider.getDefaultModel());
+    
+    // 翻譯端點固定輸出英文，不接受 language 參數
+    if (endpoint === 'transcriptions' && options.language && options.language !== 'auto') {
+      formData.append('language', options.language);
+    }
+    
+    if (options.response_format) {
+      formData.append('response_format', options.response_format);
+    }
+    
+    // 翻譯端點沒有逐字時間戳
+    if (endpoint === 'transcriptions' && options.response_format === 'verbose_json') {
+      options.timestamp_granularities?.forEach(granularity => {
+        formData.append('timestamp_granularities[]', granularity);
       });
-      
-      formData.append('file', audioFile);
-      formData.append('model', options.model || 'whisper-1');
-      
-      if (options.language && options.language !== 'auto') {
-        formData.append('language', options.language);
-      }
-      
-      if (options.response_format) {
-        formData.append('response_format', options.response_format);
-      }
-      
-      if (options.temperature !== undefined) {
-        formData.append('temperature', options.temperature.toString());
-      }
-      
-      if (options.prompt) {
-        formData.append('prompt', options.prompt);
-      }
+    }
+    
+    if (options.temperature !== undefined) {
+      formData.append('temperature', options.temperature.toString());
+    }
+    
+    const prompt = options.resolvePrompt ? options.resolvePrompt() : options.prompt;
+    if (prompt) {
+      formData.append('prompt', prompt);
+    }
 
-      const response = await requestUrl({
-        url: `${this.baseURL}/audio/transcriptions`,
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.apiKey}`,
-        },
-        body: formData as unknown as string
+    const target = this.provider.getRequestTarget(endpoint);
+    const response = await this.withTimeout(this.http({
+      url: target.url,
+      method: 'POST',
+      headers: target.headers,
+      body: formData
+    }));
+
+    this.trackRateLimit(response);
+
+    if (response.status !== 200) {
+      throw new TranscriptionRequestError(`${this.provider.displayName} API error: ${response.status} - ${response.text}`, {
+        status: response.status,
+        retryable: RETRYABLE_STATUSES.indexOf(response.status) !== -1,
+        // 額度標頭只對 429 有意義；其他錯誤只看 Retry-After，否則照常指數退避
+        retryAfter: response.status === 429 ? parseRetryAfter(response.headers) : parseRetryAfterHeader(response.headers)
       });
+    }
 
-      if (response.status !== 200) {
-        throw new Error(`OpenAI API error: ${response.status} - ${response.text}`);
-      }
+    if (options.response_format === 'text') {
+      return { text: response.text };
+    }
 
-      const result = response.json;
-      
-      // Handle different response formats
-      if (typeof result === 'string') {
-        return { text: result };
-      }
-      
-      return result as WhisperResponse;
+    const result = this.parseResponse(response.text);
+    
+    // Handle different response formats
+    if (typeof result === 'string') {
+      return { text: result };
+    }
+    
+    return result as WhisperResponse;
+  }
 
-    } catch (error) {
-      // Retry logic for transient errors
-      if (retryCount < this.maxRetries && this.isRetryableError(error as Error)) {
-        await this.delay(this.retryDelay * Math.pow(2, retryCount));
-        return this.makeTranscriptionRequest(audioBlob, options, retryCount + 1);
-      }
-      
-      throw error;
+  /**
+   * Pause the queue before the request budget runs out instead of waiting for a 429
+   */
+  private trackRateLimit(response: HttpResponse): void {
+    const state = parseRateLimit(response.headers);
+    if (state.remainingRequests === 0 && state.resetRequests !== undefined) {
+      this.pausedUntil = Math.max(this.pausedUntil, Date.now() + state.resetRequests);
     }
   }
 
-  private isRetryableError(error: Error): boolean {
-    const message = error.message.toLowerCase();
-    return (
-      message.includes('network') ||
-      message.includes('timeout') ||
-      message.includes('502') ||
-      message.includes('503') ||
-      message.includes('504') ||
-      message.includes('rate limit')
-    );
+  private parseResponse(text: string): unknown {
+    let result: unknown;
+    try {
+      result = JSON.parse(text);
+    } catch {
+      throw this.invalidResponse(text);
+    }
+
+    const isTranscription = typeof result === 'string' ||
+      (typeof result === 'object' && result !== null && typeof (result as WhisperResponse).text === 'string');
+    if (!isTranscription) {
+      throw this.invalidResponse(text);
+    }
+    return result;
   }
 
-  private getFileExtension(blob: Blob): string {
-    const mimeType = blob.type;
-    
-    if (mimeType.includes('webm')) return 'webm';
-    if (mimeType.includes('ogg')) return 'ogg';
-    if (mimeType.includes('mp4')) return 'mp4';
-    if (mimeType.includes('mpeg')) return 'mp3';
-    if (mimeType.includes('wav')) return 'wav';
-    
-    return 'webm'; // Default fallback
+  private invalidResponse(text: string): TranscriptionRequestError {
+    return new TranscriptionRequestError(`${this.provider.displayName} returned an invalid response: ${text.slice(0, 200)}`, {
+      status: 200,
+      retryable: false
+    });
   }
 
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private withTimeout<T>(request: Promise<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        reject(new TranscriptionRequestError(`${this.provider.displayName} request timeout after ${this.timeout / 1000}s`, {
+          retryable: true
+        }));
+      }, this.timeout);
+
+      request.then(
+        value => {
+          clearTimeout(timer);
+          resolve(value);
+        },
+        error => {
+          clearTimeout(timer);
+          reject(error);
+        }
+      );
+    });
   }
 
-  updateApiKey(apiKey: string): void {
-    this.apiKey = apiKey;
+  updateProvider(provider: TranscriptionProvider): void {
+    this.provider = provider;
+  }
+
+  setMaxConcurrent(maxConcurrent: number): void {
+    const limit = Math.max(1, Math.round(maxConcurrent));
+    if (limit === this.maxConcurrent) return;
+
+    this.maxConcurrent = limit;
+    this.concurrency = limit;
+    this.processQueue();
   }
 
   clearQueue(): void {
@@ -184,6 +404,10 @@ export class WhisperAPI {
       request.reject(new Error('Request cancelled'));
     });
     this.requestQueue = [];
+    if (this.wakeTimer !== null) {
+      clearTimeout(this.wakeTimer);
+      this.wakeTimer = null;
+    }
   }
 
   getQueueLength(): number {
@@ -191,6 +415,6 @@ export class WhisperAPI {
   }
 
   get processing(): boolean {
-    return this.isProcessing;
+    return this.active > 0 || this.requestQueue.length > 0;
   }
 }
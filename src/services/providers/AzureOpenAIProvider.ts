@@ -0,0 +1,62 @@
+import { requestUrl } from 'obsidian';
+import type {
+  TranscriptionEndpoint,
+  TranscriptionProvider,
+  TranscriptionRequestTarget
+} from './TranscriptionProvider';
+
+export interface AzureOpenAIConfig {
+  endpoint: string;     // https://<resource>.openai.azure.com
+  apiKey: string;
+  deployment: string;   // Whisper 部署名稱
+  apiVersion: string;
+}
+
+/**
+ * Azure OpenAI routes by deployment name and authenticates with an `api-key` header
+ */
+export class AzureOpenAIProvider implements TranscriptionProvider {
+  readonly id = 'azure' as const;
+  readonly displayName = 'Azure OpenAI';
+
+  private config: AzureOpenAIConfig;
+
+  constructor(config: AzureOpenAIConfig) {
+    this.config = config;
+  }
+
+  isConfigured(): boolean {
+    return Boolean(this.config.endpoint.trim() && this.config.apiKey && this.config.deployment.trim());
+  }
+
+  getDefaultModel(): string {
+    // Azure 以部署決定模型，model 欄位僅為相容性保留
+    return this.config.deployment.trim();
+  }
+
+  getRequestTarget(endpoint: TranscriptionEndpoint): TranscriptionRequestTarget {
+    const deployment = encodeURIComponent(this.config.deployment.trim());
+    return {
+      url: `${this.getResourceURL()}/openai/deployments/${deployment}/audio/${endpoint}?api-version=${this.getApiVersion()}`,
+      headers: { 'api-key': this.config.apiKey }
+    };
+  }
+
+  async verify(): Promise<boolean> {
+    const response = await requestUrl({
+      url: `${this.getResourceURL()}/openai/models?api-version=${this.getApiVersion()}`,
+      headers: { 'api-key': this.config.apiKey },
+      throw: false
+    });
+
+    return response.status === 200;
+  }
+
+  private getResourceURL(): string {
+    return this.config.endpoint.trim().replace(/\/+$/, '');
+  }
+
+  private getApiVersion(): string {
+    return encodeURIComponent(this.config.apiVersion.trim() || '2024-06-01');
+  }
+}
@@ -0,0 +1,37 @@
+import { OpenAICompatibleProvider } from './OpenAICompatibleProvider';
+
+/**
+ * Self-hosted OpenAI-compatible server (whisper.cpp server, faster-whisper-server ...)
+ * 自架伺服器通常不需要 API key，因此只要求 base URL
+ */
+export class CustomProvider extends OpenAICompatibleProvider {
+  readonly id = 'custom' as const;
+  readonly displayName = 'Custom endpoint';
+
+  private baseURL: string;
+  private apiKey: string;
+  private model: string;
+
+  constructor(baseURL: string, apiKey: string, model: string) {
+    super();
+    this.baseURL = baseURL;
+    this.apiKey = apiKey;
+    this.model = model;
+  }
+
+  isConfigured(): boolean {
+    return this.baseURL.trim().length > 0;
+  }
+
+  protected getBaseURL(): string {
+    return this.baseURL;
+  }
+
+  protected getApiKey(): string {
+    return this.apiKey;
+  }
+
+  getDefaultModel(): string {
+    return this.model || 'whisper-1';
+  }
+}
@@ -0,0 +1,33 @@
+import { OpenAICompatibleProvider } from './OpenAICompatibleProvider';
+
+export const GROQ_MODELS: Record<string, string> = {
+  'whisper-large-v3-turbo': 'Whisper large v3 turbo',
+  'whisper-large-v3': 'Whisper large v3',
+  'distil-whisper-large-v3-en': 'Distil whisper large v3 (English only)'
+};
+
+export class GroqProvider extends OpenAICompatibleProvider {
+  readonly id = 'groq' as const;
+  readonly displayName = 'Groq';
+
+  private apiKey: string;
+  private model: string;
+
+  constructor(apiKey: string, model: string) {
+    super();
+    this.apiKey = apiKey;
+    this.model = model;
+  }
+
+  protected getBaseURL(): string {
+    return 'https://api.groq.com/openai/v1';
+  }
+
+  protected getApiKey(): string {
+    return this.apiKey;
+  }
+
+  getDefaultModel(): string {
+    return this.model || 'whisper-large-v3-turbo';
+  }
+}
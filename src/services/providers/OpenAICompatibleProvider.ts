@@ -0,0 +1,50 @@
+import { requestUrl } from 'obsidian';
+import type {
+  TranscriptionEndpoint,
+  TranscriptionProvider,
+  TranscriptionProviderId,
+  TranscriptionRequestTarget
+} from './TranscriptionProvider';
+
+/**
+ * Base class for any server that speaks the OpenAI `/audio/*` API
+ * (OpenAI itself, Groq, whisper.cpp server, faster-whisper-server ...)
+ */
+export abstract class OpenAICompatibleProvider implements TranscriptionProvider {
+  abstract readonly id: TranscriptionProviderId;
+  abstract readonly displayName: string;
+
+  protected abstract getBaseURL(): string;
+  protected abstract getApiKey(): string;
+  abstract getDefaultModel(): string;
+
+  isConfigured(): boolean {
+    return this.getApiKey().length > 0;
+  }
+
+  getRequestTarget(endpoint: TranscriptionEndpoint): TranscriptionRequestTarget {
+    return {
+      url: `${this.normalizeBaseURL()}/audio/${endpoint}`,
+      headers: this.getAuthHeaders()
+    };
+  }
+
+  async verify(): Promise<boolean> {
+    const response = await requestUrl({
+      url: `${this.normalizeBaseURL()}/models`,
+      headers: this.getAuthHeaders(),
+      throw: false
+    });
+
+    return response.status === 200;
+  }
+
+  protected getAuthHeaders(): Record<string, string> {
+    const apiKey = this.getApiKey();
+    return apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {};
+  }
+
+  private normalizeBaseURL(): string {
+    return this.getBaseURL().trim().replace(/\/+$/, '');
+  }
+}
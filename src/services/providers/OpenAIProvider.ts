@@ -0,0 +1,27 @@
+import { OpenAICompatibleProvider } from './OpenAICompatibleProvider';
+
+export class OpenAIProvider extends OpenAICompatibleProvider {
+  readonly id = 'openai' as const;
+  readonly displayName = 'OpenAI';
+
+  private apiKey: string;
+  private model: string;
+
+  constructor(apiKey: string, model: string) {
+    super();
+    this.apiKey = apiKey;
+    this.model = model;
+  }
+
+  protected getBaseURL(): string {
+    return 'https://api.openai.com/v1';
+  }
+
+  protected getApiKey(): string {
+    return this.apiKey;
+  }
+
+  getDefaultModel(): string {
+    return this.model || 'whisper-1';
+  }
+}
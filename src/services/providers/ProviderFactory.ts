@@ -0,0 +1,28 @@
+import type { VoiceTranscriberSettings } from '../../settings/PluginSettings';
+import type { TranscriptionProvider } from './TranscriptionProvider';
+import { OpenAIProvider } from './OpenAIProvider';
+import { CustomProvider } from './CustomProvider';
+import { AzureOpenAIProvider } from './AzureOpenAIProvider';
+import { GroqProvider } from './GroqProvider';
+
+/**
+ * Build the provider selected in settings
+ */
+export function createTranscriptionProvider(settings: VoiceTranscriberSettings): TranscriptionProvider {
+  switch (settings.transcriptionProvider) {
+    case 'custom':
+      return new CustomProvider(settings.customBaseUrl, settings.customApiKey, settings.customModel);
+    case 'azure':
+      return new AzureOpenAIProvider({
+        endpoint: settings.azureEndpoint,
+        apiKey: settings.azureApiKey,
+        deployment: settings.azureDeployment,
+        apiVersion: settings.azureApiVersion
+      });
+    case 'groq':
+      return new GroqProvider(settings.groqApiKey, settings.groqModel);
+    case 'openai':
+    default:
+      return new OpenAIProvider(settings.openaiApiKey, settings.whisperModel);
+  }
+}
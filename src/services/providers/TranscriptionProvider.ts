@@ -0,0 +1,45 @@
+/**
+ * Transcription provider abstraction
+ * 每個後端只負責描述「要打哪個網址、帶哪些標頭」，排隊與重試仍由 WhisperAPI 處理
+ */
+
+export type TranscriptionProviderId = 'openai' | 'custom' | 'azure' | 'groq';
+
+export type TranscriptionEndpoint = 'transcriptions' | 'translations';
+
+export interface TranscriptionRequestTarget {
+  url: string;
+  headers: Record<string, string>;
+}
+
+export interface TranscriptionProvider {
+  readonly id: TranscriptionProviderId;
+  readonly displayName: string;
+
+  /**
+   * Whether enough settings are filled in to send a request
+   */
+  isConfigured(): boolean;
+
+  /**
+   * Model name sent with each request when the caller doesn't pick one
+   */
+  getDefaultModel(): string;
+
+  /**
+   * Build the URL and headers for an audio endpoint
+   */
+  getRequestTarget(endpoint: TranscriptionEndpoint): TranscriptionRequestTarget;
+
+  /**
+   * Lightweight credential check used by the settings tab
+   */
+  verify(): Promise<boolean>;
+}
+
+export const PROVIDER_OPTIONS: Record<TranscriptionProviderId, string> = {
+  openai: 'OpenAI',
+  custom: 'Custom (OpenAI-compatible)',
+  azure: 'Azure OpenAI',
+  groq: 'Groq'
+};
@@ -1,28 +1,154 @@
+import type { TranscriptionProviderId } from '../services/providers/TranscriptionProvider';
+import type { AudioSourceMode } from '../services/AudioSourceManager';
+import type { HallucinationAction } from '../utils/HallucinationFilter';
+import type { VadCalibration } from '../services/VadCalibrator';
+
+// translate: 只保留英文譯文 / both: 原文與英文譯文並列
+export type TranslationMode = 'translate' | 'both';
+
+// Transcription languages offered in the settings and when re-transcribing a segment
+export const LANGUAGE_OPTIONS: Record<string, string> = {
+	auto: 'Auto',
+	en: 'English',
+	zh: '中文',
+	ja: '日本語',
+	ko: '한국어',
+	es: 'Español',
+	fr: 'Français',
+	de: 'Deutsch',
+	it: 'Italiano',
+	pt: 'Português',
+	ru: 'Русский',
+	ar: 'العربية'
+};
+
 export interface VoiceTranscriberSettings {
+	// Transcription backend
+	transcriptionProvider: TranscriptionProviderId;
+
 	// OpenAI API settings
 	openaiApiKey: string;
 	whisperModel: string;
+
+	// Custom OpenAI-compatible endpoint (whisper.cpp server, faster-whisper-server)
+	customBaseUrl: string;
+	customApiKey: string;
+	customModel: string;
+
+	// Azure OpenAI settings
+	azureEndpoint: string;
+	azureApiKey: string;
+	azureDeployment: string;
+	azureApiVersion: string;
+
+	// Groq settings
+	groqApiKey: string;
+	groqModel: string;
+
+	// Transcription queue
+	maxConcurrentRequests: number; // 同時送出的轉錄請求數
 	
 	// Recording settings
 	segmentDuration: number; // in seconds (5-10)
+	audioSource: AudioSourceMode;
+	audioDeviceId: string;      // empty for the system default input
 	
 	// Smart segmentation settings
 	pauseThreshold: number; // pause duration before uploading segment (ms)
+
+	// Voice detection sensitivity
+	minAudioLevel: number;      // 0-100, quieter frames never count as speech
+	voiceConfidenceThreshold: number; // 0-1, detector confidence needed to count as speech
+	vadCalibrations: Record<string, VadCalibration>; // per input device id ('default' for the system default)
+	vadFftSize: number;         // analyser FFT size; frequency bands are mapped from the actual sample rate
+	voiceFormantRatio: number;  // formant to fundamental energy ratio that counts toward a human voice
+	voiceZcrRange: [number, number];        // zero-crossing rate range of a human voice
+	voiceFundamentalBand: [number, number]; // Hz, voice pitch
+	voiceFormantBand: [number, number];     // Hz, vowel formants
+	computerAudioCutoff: number;            // Hz, energy above this counts toward computer audio
+	noiseSuppression: boolean;  // spectral subtraction on the captured audio before upload
+
+	// Speaker diarization
+	enableDiarization: boolean;
+	maxSpeakers: number;
+	speakerThreshold: number;   // embedding distance that starts a new speaker
 	
 	// Language settings
 	language: string; // language code for Whisper API
 	enableTranslation: boolean;
+	translationMode: TranslationMode;
+
+	// Custom vocabulary sent as the transcription prompt
+	glossary: string;           // terms separated by commas or new lines
+	glossaryNotePath: string;   // optional note with one term per line
+	useRollingContext: boolean; // also send the end of the previous segment
+
+	// Hallucination filter for phantom text on near-silent audio
+	hallucinationAction: HallucinationAction;
+	noSpeechThreshold: number;  // verbose_json no_speech_prob above this…
+	logProbThreshold: number;   // …with avg_logprob below this counts as silence
+	minVoiceRatio: number;      // share of voiced frames below which a segment is dropped
+	hallucinationPhrases: string; // extra phrases to drop, one per line
 	
+	// Session persistence
+	saveSessions: boolean;
+	sessionFolder: string;
+
+	// Note insertion
+	insertHeading: string;      // heading used by "append under heading"
+	noteTemplatePath: string;   // template for "new note from transcript"
+	newNoteFolder: string;
+
 	// UI settings
 	autoScroll: boolean;
 }
 
 export const DEFAULT_SETTINGS: VoiceTranscriberSettings = {
+	transcriptionProvider: 'openai',
 	openaiApiKey: '',
 	whisperModel: 'whisper-1',
+	customBaseUrl: 'http://localhost:8000/v1',
+	customApiKey: '',
+	customModel: 'whisper-1',
+	azureEndpoint: '',
+	azureApiKey: '',
+	azureDeployment: '',
+	azureApiVersion: '2024-06-01',
+	groqApiKey: '',
+	groqModel: 'whisper-large-v3-turbo',
+	maxConcurrentRequests: 3,
 	segmentDuration: 8, // 8 seconds default
+	audioSource: 'microphone',
+	audioDeviceId: '',
 	pauseThreshold: 50, // 50ms pause before upload (ultra-responsive)
+	minAudioLevel: 20,
+	voiceConfidenceThreshold: 0.3,
+	vadCalibrations: {},
+	vadFftSize: 1024,
+	voiceFormantRatio: 1.5,
+	voiceZcrRange: [0.1, 0.5],
+	voiceFundamentalBand: [85, 300],
+	voiceFormantBand: [1000, 4000],
+	computerAudioCutoff: 4000,
+	noiseSuppression: true,
+	enableDiarization: false,
+	maxSpeakers: 4,
+	speakerThreshold: 1.5,
 	language: 'auto', // auto-detect
 	enableTranslation: false,
+	translationMode: 'translate',
+	glossary: '',
+	glossaryNotePath: '',
+	useRollingContext: true,
+	hallucinationAction: 'drop',
+	noSpeechThreshold: 0.6,
+	logProbThreshold: -1,
+	minVoiceRatio: 0.05,
+	hallucinationPhrases: '',
+	saveSessions: true,
+	sessionFolder: 'Transcripts',
+	insertHeading: 'Transcript',
+	noteTemplatePath: '',
+	newNoteFolder: 'Transcripts',
 	autoScroll: true
 };
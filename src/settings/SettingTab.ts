@@ -1,5 +1,15 @@
-import { App, PluginSettingTab, Setting, requestUrl } from 'obsidian';
+import { App, PluginSettingTab, Setting } from 'obsidian';
 import type OBWhisperingPlugin from '../../main';
+import { DEFAULT_SETTINGS, LANGUAGE_OPTIONS, type TranslationMode } from './PluginSettings';
+import { PROVIDER_OPTIONS, type TranscriptionProviderId } from '../services/providers/TranscriptionProvider';
+import { GROQ_MODELS } from '../services/providers/GroqProvider';
+import { createTranscriptionProvider } from '../services/providers/ProviderFactory';
+import { AUDIO_SOURCE_OPTIONS, AudioSourceManager, type AudioSourceMode } from '../services/AudioSourceManager';
+import { HALLUCINATION_ACTION_OPTIONS, type HallucinationAction } from '../utils/HallucinationFilter';
+import { getCalibrationKey } from '../services/VadCalibrator';
+import { FFT_SIZE_OPTIONS } from '../services/VoiceActivityDetector';
+import { CalibrationModal } from '../views/CalibrationModal';
+import { NoiseSuppressionPreviewModal } from '../views/NoiseSuppressionPreviewModal';
 
 export class VoiceTranscriberSettingTab extends PluginSettingTab {
 	plugin: OBWhisperingPlugin;
@@ -30,70 +40,44 @@ export class VoiceTranscriberSettingTab extends PluginSettingTab {
 			.setName('API configuration')
 			.setHeading();
 
-		// OpenAI API Key
+		// 轉錄服務選擇
 		new Setting(containerEl)
-			.setName('Openai api key')
-			.setDesc('Your openai api key for whisper transcription. Get one from https://platform.openai.com/api-keys')
-			.addText(text => text
-				.setPlaceholder('sk-...')
-				.setValue(this.plugin.settings.openaiApiKey)
+			.setName('Transcription provider')
+			.setDesc('Where audio is sent for transcription. Use a custom endpoint to keep audio on your own server.')
+			.addDropdown(dropdown => dropdown
+				.addOptions(PROVIDER_OPTIONS)
+				.setValue(this.plugin.settings.transcriptionProvider)
 				.onChange(async (value) => {
-					this.plugin.settings.openaiApiKey = value.trim();
+					this.plugin.settings.transcriptionProvider = value as TranscriptionProviderId;
 					await this.plugin.saveSettings();
-				}))
-			.addButton(button => button
-				.setButtonText('Verify')
-				.setTooltip('Test your openai api key')
-				.onClick(async () => {
-					if (!this.plugin.settings.openaiApiKey) {
-						button.setButtonText('No API key');
-						void setTimeout(() => button.setButtonText('Verify'), 2000);
-						return;
-					}
-
-					button.setButtonText('Verifying...');
-					button.setDisabled(true);
-
-					try {
-						// Simple API test - create a small test request using requestUrl
-						const response = await requestUrl({
-							url: 'https://api.openai.com/v1/models',
-							headers: {
-								'Authorization': `Bearer ${this.plugin.settings.openaiApiKey}`,
-							}
-						});
-
-						if (response.status === 200) {
-							button.setButtonText('Success');
-							void setTimeout(() => {
-								button.setButtonText('Verify');
-								button.setDisabled(false);
-							}, 2000);
-						} else {
-							button.setButtonText('Failed');
-							void setTimeout(() => {
-								button.setButtonText('Verify');
-								button.setDisabled(false);
-							}, 2000);
-						}
-					} catch {
-						button.setButtonText('Error');
-						void setTimeout(() => {
-							button.setButtonText('Verify');
-							button.setDisabled(false);
-						}, 2000);
-					}
+					this.display();
 				}));
 
-		// Model
+		switch (this.plugin.settings.transcriptionProvider) {
+			case 'custom':
+				this.displayCustomSettings(containerEl);
+				break;
+			case 'azure':
+				this.displayAzureSettings(containerEl);
+				break;
+			case 'groq':
+				this.displayGroqSettings(containerEl);
+				break;
+			case 'openai':
+			default:
+				this.displayOpenAISettings(containerEl);
+				break;
+		}
+
 		new Setting(containerEl)
-			.setName('Model')
-			.setDesc('Whisper model to use for transcription')
-			.addDropdown(dropdown => dropdown
-				.addOption('whisper-1', 'Whisper v1')
-				.setValue(this.plugin.settings.whisperModel)
+			.setName('Parallel requests')
+			.setDesc('How many segments are transcribed at the same time. Results still appear in order. Rate limits lower this automatically.')
+			.addSlider(slider => slider
+				.setLimits(1, 6, 1)
+				.setValue(this.plugin.settings.maxConcurrentRequests)
+				.setDynamicTooltip()
 				.onChange(async (value) => {
-					this.plugin.settings.whisperModel = value;
+					this.plugin.settings.maxConcurrentRequests = value;
 					await this.plugin.saveSettings();
 				}));
 
@@ -102,6 +86,23 @@ export class VoiceTranscriberSettingTab extends PluginSettingTab {
 			.setName('Recording')
 			.setHeading();
 
+		// 音訊來源
+		new Setting(containerEl)
+			.setName('Audio source')
+			.setDesc('Record the microphone, system or tab audio, or both mixed together to capture both sides of a call. System audio asks which screen or tab to share when recording starts')
+			.addDropdown(dropdown => dropdown
+				.addOptions(AUDIO_SOURCE_OPTIONS)
+				.setValue(this.plugin.settings.audioSource)
+				.onChange(async (value) => {
+					this.plugin.settings.audioSource = value as AudioSourceMode;
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		if (this.plugin.settings.audioSource !== 'system') {
+			this.displayInputDeviceSetting(containerEl);
+		}
+
 		// 分段時間
 		new Setting(containerEl)
 			.setName('Segment duration')
@@ -150,7 +151,45 @@ export class VoiceTranscriberSettingTab extends PluginSettingTab {
 					}
 				}));
 
+		this.displayVoiceDetectionSettings(containerEl);
 
+		// 說話者辨識
+		new Setting(containerEl)
+			.setName('Identify speakers')
+			.setDesc('Label segments as "Speaker 1", "Speaker 2"... by voice characteristics, analysed locally. Click a speaker in the sidebar to rename it')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.enableDiarization)
+				.onChange(async (value) => {
+					this.plugin.settings.enableDiarization = value;
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		if (this.plugin.settings.enableDiarization) {
+			new Setting(containerEl)
+				.setName('Maximum speakers')
+				.setDesc('Segments are assigned to the closest known speaker once this many have been found')
+				.addSlider(slider => slider
+					.setLimits(2, 8, 1)
+					.setValue(this.plugin.settings.maxSpeakers)
+					.setDynamicTooltip()
+					.onChange(async (value) => {
+						this.plugin.settings.maxSpeakers = value;
+						await this.plugin.saveSettings();
+					}));
+
+			new Setting(containerEl)
+				.setName('Speaker separation')
+				.setDesc('Lower values split voices into more speakers, higher values merge similar voices. Applies after the transcript is cleared')
+				.addSlider(slider => slider
+					.setLimits(0.5, 3, 0.1)
+					.setValue(this.plugin.settings.speakerThreshold)
+					.setDynamicTooltip()
+					.onChange(async (value) => {
+						this.plugin.settings.speakerThreshold = value;
+						await this.plugin.saveSettings();
+					}));
+		}
 
 		// 語言設定區塊
 		new Setting(containerEl)
@@ -163,18 +202,7 @@ export class VoiceTranscriberSettingTab extends PluginSettingTab {
 			.setDesc('Language for transcription (auto-detect or specific language)')
 			.addDropdown(dropdown => {
 				dropdown
-					.addOption('auto', 'Auto')
-					.addOption('en', 'English')
-					.addOption('zh', '中文')
-					.addOption('ja', '日本語')
-					.addOption('ko', '한국어')
-					.addOption('es', 'Español')
-					.addOption('fr', 'Français')
-					.addOption('de', 'Deutsch')
-					.addOption('it', 'Italiano')
-					.addOption('pt', 'Português')
-					.addOption('ru', 'Русский')
-					.addOption('ar', 'العربية')
+					.addOptions(LANGUAGE_OPTIONS)
 					.setValue(this.plugin.settings.language)
 					.onChange(async (value) => {
 						this.plugin.settings.language = value;
@@ -191,6 +219,196 @@ export class VoiceTranscriberSettingTab extends PluginSettingTab {
 				.onChange(async (value) => {
 					this.plugin.settings.enableTranslation = value;
 					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		if (this.plugin.settings.enableTranslation) {
+			new Setting(containerEl)
+				.setName('Translation output')
+				.setDesc('Replace each segment with its english translation, or keep the original text with the translation below it')
+				.addDropdown(dropdown => dropdown
+					.addOption('translate', 'English only')
+					.addOption('both', 'Original and english')
+					.setValue(this.plugin.settings.translationMode)
+					.onChange(async (value) => {
+						this.plugin.settings.translationMode = value as TranslationMode;
+						await this.plugin.saveSettings();
+					}));
+		}
+
+		// 自訂詞彙區塊
+		new Setting(containerEl)
+			.setName('Vocabulary')
+			.setHeading();
+
+		new Setting(containerEl)
+			.setName('Glossary')
+			.setDesc('Product names, people and jargon to spell correctly. Separate terms with commas or new lines')
+			.addTextArea(text => {
+				text
+					.setPlaceholder('Obsidian, Whisper, Alice Chen')
+					.setValue(this.plugin.settings.glossary)
+					.onChange(async (value) => {
+						this.plugin.settings.glossary = value;
+						await this.plugin.saveSettings();
+					});
+				text.inputEl.rows = 4;
+			});
+
+		new Setting(containerEl)
+			.setName('Glossary note')
+			.setDesc('Optional note in this vault with more terms, one per line or as a list. Leave empty to use only the glossary above')
+			.addText(text => text
+				.setPlaceholder('Glossary.md')
+				.setValue(this.plugin.settings.glossaryNotePath)
+				.onChange(async (value) => {
+					this.plugin.settings.glossaryNotePath = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Use previous segment as context')
+			.setDesc('Send the end of the latest transcribed segment with each request so sentences that span segments stay coherent. With parallel requests this can be a segment or two back')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.useRollingContext)
+				.onChange(async (value) => {
+					this.plugin.settings.useRollingContext = value;
+					await this.plugin.saveSettings();
+				}));
+
+		// 幻覺過濾設定區塊
+		new Setting(containerEl)
+			.setName('Hallucination filter')
+			.setHeading();
+
+		new Setting(containerEl)
+			.setName('Suspicious segments')
+			.setDesc('What to do with text transcribed from near-silent audio, such as "Thanks for watching!" or a phrase repeated over and over')
+			.addDropdown(dropdown => dropdown
+				.addOptions(HALLUCINATION_ACTION_OPTIONS)
+				.setValue(this.plugin.settings.hallucinationAction)
+				.onChange(async (value) => {
+					this.plugin.settings.hallucinationAction = value as HallucinationAction;
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		if (this.plugin.settings.hallucinationAction !== 'off') {
+			new Setting(containerEl)
+				.setName('No-speech probability')
+				.setDesc('Parts of a segment the model rates above this probability of containing no speech (and with low confidence) are removed')
+				.addSlider(slider => slider
+					.setLimits(0.1, 1, 0.05)
+					.setValue(this.plugin.settings.noSpeechThreshold)
+					.setDynamicTooltip()
+					.onChange(async (value) => {
+						this.plugin.settings.noSpeechThreshold = value;
+						await this.plugin.saveSettings();
+					}));
+
+			new Setting(containerEl)
+				.setName('Minimum confidence')
+				.setDesc('Average log probability below which a part rated as no speech is removed. Lower values remove less')
+				.addSlider(slider => slider
+					.setLimits(-3, 0, 0.1)
+					.setValue(this.plugin.settings.logProbThreshold)
+					.setDynamicTooltip()
+					.onChange(async (value) => {
+						this.plugin.settings.logProbThreshold = value;
+						await this.plugin.saveSettings();
+					}));
+
+			new Setting(containerEl)
+				.setName('Minimum voice ratio')
+				.setDesc('Segments where voice was detected in less than this share of the audio are treated as silence')
+				.addSlider(slider => slider
+					.setLimits(0, 0.5, 0.01)
+					.setValue(this.plugin.settings.minVoiceRatio)
+					.setDynamicTooltip()
+					.onChange(async (value) => {
+						this.plugin.settings.minVoiceRatio = value;
+						await this.plugin.saveSettings();
+					}));
+
+			new Setting(containerEl)
+				.setName('Extra phrases')
+				.setDesc('Segments consisting only of these phrases are treated as hallucinations. One phrase per line')
+				.addTextArea(text => {
+					text
+						.setPlaceholder('Thanks for listening')
+						.setValue(this.plugin.settings.hallucinationPhrases)
+						.onChange(async (value) => {
+							this.plugin.settings.hallucinationPhrases = value;
+							await this.plugin.saveSettings();
+						});
+					text.inputEl.rows = 3;
+				});
+		}
+
+		// 工作階段設定區塊
+		new Setting(containerEl)
+			.setName('Sessions')
+			.setHeading();
+
+		// 儲存工作階段
+		new Setting(containerEl)
+			.setName('Save recording sessions')
+			.setDesc('Save each recording as a note with its audio attached. Unfinished sessions are recovered the next time the sidebar opens.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.saveSessions)
+				.onChange(async (value) => {
+					this.plugin.settings.saveSessions = value;
+					await this.plugin.saveSettings();
+				}));
+
+		// 輸出資料夾
+		new Setting(containerEl)
+			.setName('Session folder')
+			.setDesc('Folder where session notes are created. Audio is saved according to your attachment settings.')
+			.addText(text => text
+				.setPlaceholder('Transcripts')
+				.setValue(this.plugin.settings.sessionFolder)
+				.onChange(async (value) => {
+					this.plugin.settings.sessionFolder = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		// 插入筆記設定區塊
+		new Setting(containerEl)
+			.setName('Note insertion')
+			.setHeading();
+
+		new Setting(containerEl)
+			.setName('Append heading')
+			.setDesc('Heading that "append transcript under heading" writes below. It is created when the note does not have it.')
+			.addText(text => text
+				.setPlaceholder('Transcript')
+				.setValue(this.plugin.settings.insertHeading)
+				.onChange(async (value) => {
+					this.plugin.settings.insertHeading = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('New note template')
+			.setDesc('Path to a template note. Supports {{date}}, {{date:FORMAT}}, {{duration}} and {{transcript}}. Leave empty for the built-in template.')
+			.addText(text => text
+				.setPlaceholder('Templates/Transcript.md')
+				.setValue(this.plugin.settings.noteTemplatePath)
+				.onChange(async (value) => {
+					this.plugin.settings.noteTemplatePath = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('New note folder')
+			.setDesc('Folder for notes created from the template')
+			.addText(text => text
+				.setPlaceholder('Transcripts')
+				.setValue(this.plugin.settings.newNoteFolder)
+				.onChange(async (value) => {
+					this.plugin.settings.newNoteFolder = value.trim();
+					await this.plugin.saveSettings();
 				}));
 
 		// 顯示設定區塊
@@ -212,4 +430,374 @@ export class VoiceTranscriberSettingTab extends PluginSettingTab {
 
 
 	}
+
+	private displayOpenAISettings(containerEl: HTMLElement): void {
+		// OpenAI API Key
+		const apiKeySetting = new Setting(containerEl)
+			.setName('Openai api key')
+			.setDesc('Your openai api key for whisper transcription. Get one from https://platform.openai.com/api-keys')
+			.addText(text => text
+				.setPlaceholder('sk-...')
+				.setValue(this.plugin.settings.openaiApiKey)
+				.onChange(async (value) => {
+					this.plugin.settings.openaiApiKey = value.trim();
+					await this.plugin.saveSettings();
+				}));
+		this.addVerifyButton(apiKeySetting);
+
+		// Model
+		new Setting(containerEl)
+			.setName('Model')
+			.setDesc('Whisper model to use for transcription')
+			.addDropdown(dropdown => dropdown
+				.addOption('whisper-1', 'Whisper v1')
+				.setValue(this.plugin.settings.whisperModel)
+				.onChange(async (value) => {
+					this.plugin.settings.whisperModel = value;
+					await this.plugin.saveSettings();
+				}));
+	}
+
+	private displayCustomSettings(containerEl: HTMLElement): void {
+		const baseUrlSetting = new Setting(containerEl)
+			.setName('Base URL')
+			.setDesc('OpenAI-compatible API root, e.g. a local whisper.cpp server or faster-whisper-server. Requests go to <base URL>/audio/transcriptions.')
+			.addText(text => text
+				.setPlaceholder('http://localhost:8000/v1')
+				.setValue(this.plugin.settings.customBaseUrl)
+				.onChange(async (value) => {
+					this.plugin.settings.customBaseUrl = value.trim();
+					await this.plugin.saveSettings();
+				}));
+		this.addVerifyButton(baseUrlSetting);
+
+		new Setting(containerEl)
+			.setName('API key')
+			.setDesc('Optional. Leave empty if your server does not require authentication.')
+			.addText(text => text
+				.setValue(this.plugin.settings.customApiKey)
+				.onChange(async (value) => {
+					this.plugin.settings.customApiKey = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Model')
+			.setDesc('Model name expected by your server')
+			.addText(text => text
+				.setPlaceholder('whisper-1')
+				.setValue(this.plugin.settings.customModel)
+				.onChange(async (value) => {
+					this.plugin.settings.customModel = value.trim();
+					await this.plugin.saveSettings();
+				}));
+	}
+
+	private displayAzureSettings(containerEl: HTMLElement): void {
+		new Setting(containerEl)
+			.setName('Endpoint')
+			.setDesc('Your azure openai resource endpoint')
+			.addText(text => text
+				.setPlaceholder('https://my-resource.openai.azure.com')
+				.setValue(this.plugin.settings.azureEndpoint)
+				.onChange(async (value) => {
+					this.plugin.settings.azureEndpoint = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		const apiKeySetting = new Setting(containerEl)
+			.setName('API key')
+			.setDesc('Key 1 or key 2 from the resource\'s keys and endpoint page')
+			.addText(text => text
+				.setValue(this.plugin.settings.azureApiKey)
+				.onChange(async (value) => {
+					this.plugin.settings.azureApiKey = value.trim();
+					await this.plugin.saveSettings();
+				}));
+		this.addVerifyButton(apiKeySetting);
+
+		new Setting(containerEl)
+			.setName('Deployment name')
+			.setDesc('Name of your whisper deployment')
+			.addText(text => text
+				.setPlaceholder('whisper')
+				.setValue(this.plugin.settings.azureDeployment)
+				.onChange(async (value) => {
+					this.plugin.settings.azureDeployment = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('API version')
+			.addText(text => text
+				.setPlaceholder('2024-06-01')
+				.setValue(this.plugin.settings.azureApiVersion)
+				.onChange(async (value) => {
+					this.plugin.settings.azureApiVersion = value.trim();
+					await this.plugin.saveSettings();
+				}));
+	}
+
+	private displayGroqSettings(containerEl: HTMLElement): void {
+		const apiKeySetting = new Setting(containerEl)
+			.setName('Groq api key')
+			.setDesc('Get one from https://console.groq.com/keys')
+			.addText(text => text
+				.setPlaceholder('gsk_...')
+				.setValue(this.plugin.settings.groqApiKey)
+				.onChange(async (value) => {
+					this.plugin.settings.groqApiKey = value.trim();
+					await this.plugin.saveSettings();
+				}));
+		this.addVerifyButton(apiKeySetting);
+
+		new Setting(containerEl)
+			.setName('Model')
+			.setDesc('Whisper model hosted by groq')
+			.addDropdown(dropdown => dropdown
+				.addOptions(GROQ_MODELS)
+				.setValue(this.plugin.settings.groqModel)
+				.onChange(async (value) => {
+					this.plugin.settings.groqModel = value;
+					await this.plugin.saveSettings();
+				}));
+	}
+
+	private displayInputDeviceSetting(containerEl: HTMLElement): void {
+		new Setting(containerEl)
+			.setName('Input device')
+			.setDesc('Microphone to record from. Falls back to the default device when it is unplugged')
+			.addDropdown(dropdown => {
+				dropdown
+					.addOption('', 'System default')
+					.setValue(this.plugin.settings.audioDeviceId)
+					.onChange(async (value) => {
+						this.plugin.settings.audioDeviceId = value;
+						await this.plugin.saveSettings();
+						// 顯示新裝置的校準狀態
+						this.display();
+					});
+
+				// 裝置清單需非同步取得，載入後再補上選項
+				AudioSourceManager.listInputDevices()
+					.then(devices => {
+						for (const device of devices) {
+							if (device.deviceId && device.deviceId !== 'default') {
+								dropdown.addOption(device.deviceId, device.label);
+							}
+						}
+						const saved = this.plugin.settings.audioDeviceId;
+						if (saved && !devices.some(device => device.deviceId === saved)) {
+							dropdown.addOption(saved, 'Unavailable device (using default)');
+						}
+						dropdown.setValue(saved);
+					})
+					.catch(error => console.error('Failed to list audio input devices:', error));
+			});
+	}
+
+	private displayVoiceDetectionSettings(containerEl: HTMLElement): void {
+		const { settings } = this.plugin;
+
+		// 校準結果依裝置保存，優先於下方的通用設定
+		if (settings.audioSource !== 'system') {
+			const key = getCalibrationKey(settings.audioDeviceId);
+			const calibration = settings.vadCalibrations[key];
+
+			const setting = new Setting(containerEl)
+				.setName('Calibrate voice detection')
+				.setDesc(calibration
+					? `Calibrated for "${calibration.label}" on ${new Date(calibration.calibratedAt).toLocaleDateString()} (level ${calibration.minAudioLevel}, confidence ${calibration.confidenceThreshold})`
+					: 'Record room noise and speech to tune voice detection for the selected microphone')
+				.addButton(button => button
+					.setButtonText(calibration ? 'Recalibrate' : 'Calibrate')
+					.onClick(async () => {
+						const devices = await AudioSourceManager.listInputDevices().catch(() => []);
+						const device = devices.find(device => device.deviceId === settings.audioDeviceId);
+						const label = settings.audioDeviceId ? device?.label ?? 'Selected microphone' : 'System default';
+
+						new CalibrationModal(this.app, settings, label, async (result) => {
+							// 整個物件替換，避免改到 DEFAULT_SETTINGS 共用的預設物件
+							this.plugin.settings.vadCalibrations = { ...this.plugin.settings.vadCalibrations, [key]: result };
+							await this.plugin.saveSettings();
+							this.display();
+						}).open();
+					}));
+
+			if (calibration) {
+				setting.addButton(button => button
+					.setButtonText('Reset')
+					.setTooltip('Use the settings below for this microphone again')
+					.onClick(async () => {
+						const calibrations = { ...this.plugin.settings.vadCalibrations };
+						delete calibrations[key];
+						this.plugin.settings.vadCalibrations = calibrations;
+						await this.plugin.saveSettings();
+						this.display();
+					}));
+			}
+		}
+
+		new Setting(containerEl)
+			.setName('Minimum audio level')
+			.setDesc('Quieter sounds never count as speech (0-100). Raise it in noisy rooms. Calibrated microphones use their own value')
+			.addSlider(slider => slider
+				.setLimits(1, 60, 1)
+				.setValue(settings.minAudioLevel)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.minAudioLevel = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Voice confidence')
+			.setDesc('How sure the detector must be that a sound is a human voice. Calibrated microphones use their own value')
+			.addSlider(slider => slider
+				.setLimits(0.1, 0.9, 0.05)
+				.setValue(settings.voiceConfidenceThreshold)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.voiceConfidenceThreshold = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Frequency resolution')
+			.setDesc('FFT size used to find voice frequencies. Larger sizes separate low voices better on 48 kHz devices. Applies from the next recording; recalibrate after changing it')
+			.addDropdown(dropdown => dropdown
+				.addOptions(FFT_SIZE_OPTIONS)
+				.setValue(String(settings.vadFftSize))
+				.onChange(async (value) => {
+					this.plugin.settings.vadFftSize = parseInt(value);
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Noise suppression')
+			.setDesc('Remove steady background noise (fans, air conditioning, hum) from the audio before it is sent for transcription. Applies from the next recording')
+			.addButton(button => button
+				.setButtonText('Preview')
+				.setTooltip('Record a sample and compare it with and without noise suppression')
+				.onClick(() => new NoiseSuppressionPreviewModal(this.app, this.plugin.settings).open()))
+			.addToggle(toggle => toggle
+				.setValue(settings.noiseSuppression)
+				.onChange(async (value) => {
+					this.plugin.settings.noiseSuppression = value;
+					await this.plugin.saveSettings();
+				}));
+
+		this.displayVoiceFeatureSettings(containerEl);
+	}
+
+	private displayVoiceFeatureSettings(containerEl: HTMLElement): void {
+		const { settings } = this.plugin;
+
+		new Setting(containerEl)
+			.setName('Voice features')
+			.setDesc('What the detector treats as a human voice, set below. Calibration tunes the level and confidence above, not these')
+			.addButton(button => button
+				.setButtonText('Restore defaults')
+				.onClick(async () => {
+					this.plugin.settings.voiceFormantRatio = DEFAULT_SETTINGS.voiceFormantRatio;
+					this.plugin.settings.voiceZcrRange = [DEFAULT_SETTINGS.voiceZcrRange[0], DEFAULT_SETTINGS.voiceZcrRange[1]];
+					this.plugin.settings.voiceFundamentalBand = [DEFAULT_SETTINGS.voiceFundamentalBand[0], DEFAULT_SETTINGS.voiceFundamentalBand[1]];
+					this.plugin.settings.voiceFormantBand = [DEFAULT_SETTINGS.voiceFormantBand[0], DEFAULT_SETTINGS.voiceFormantBand[1]];
+					this.plugin.settings.computerAudioCutoff = DEFAULT_SETTINGS.computerAudioCutoff;
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		new Setting(containerEl)
+			.setName('Formant ratio')
+			.setDesc('How much stronger the formant band must be than the pitch band. Lower it if quiet or distant voices are missed')
+			.addSlider(slider => slider
+				.setLimits(0.5, 4, 0.1)
+				.setValue(settings.voiceFormantRatio)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					this.plugin.settings.voiceFormantRatio = value;
+					await this.plugin.saveSettings();
+				}));
+
+		this.addRangeSetting(containerEl, 'Zero-crossing rate',
+			'Share of samples where the signal changes sign, e.g. 0.1-0.5',
+			settings.voiceZcrRange, [0, 1], (range) => { this.plugin.settings.voiceZcrRange = range; });
+		this.addRangeSetting(containerEl, 'Pitch band (Hz)',
+			'Where the fundamental of the voice lies, e.g. 85-300. Widen it for children or very low voices',
+			settings.voiceFundamentalBand, [20, 1000], (range) => { this.plugin.settings.voiceFundamentalBand = range; });
+		this.addRangeSetting(containerEl, 'Formant band (Hz)',
+			'Where the vowel formants lie, e.g. 1000-4000',
+			settings.voiceFormantBand, [200, 8000], (range) => { this.plugin.settings.voiceFormantBand = range; });
+
+		new Setting(containerEl)
+			.setName('Computer audio above (Hz)')
+			.setDesc('Strong energy above this frequency counts towards computer audio rather than a voice')
+			.addText(text => text
+				.setValue(String(settings.computerAudioCutoff))
+				.onChange(async (value) => {
+					const cutoff = parseFloat(value);
+					if (!isNaN(cutoff) && cutoff >= 1000 && cutoff <= 20000) {
+						this.plugin.settings.computerAudioCutoff = cutoff;
+						await this.plugin.saveSettings();
+					}
+				}));
+	}
+
+	/**
+	 * Text field for a "low-high" pair; invalid input is ignored until it is corrected
+	 */
+	private addRangeSetting(
+		containerEl: HTMLElement,
+		name: string,
+		desc: string,
+		value: [number, number],
+		limits: [number, number],
+		onChange: (range: [number, number]) => void
+	): void {
+		new Setting(containerEl)
+			.setName(name)
+			.setDesc(desc)
+			.addText(text => text
+				.setValue(`${value[0]}-${value[1]}`)
+				.onChange(async (input) => {
+					const match = /^\s*(\d+(?:\.\d+)?)\s*[-–]\s*(\d+(?:\.\d+)?)\s*$/.exec(input);
+					if (!match) return;
+					const low = parseFloat(match[1]);
+					const high = parseFloat(match[2]);
+					if (low < limits[0] || high > limits[1] || low >= high) return;
+					onChange([low, high]);
+					await this.plugin.saveSettings();
+				}));
+	}
+
+	private addVerifyButton(setting: Setting): void {
+		setting.addButton(button => button
+			.setButtonText('Verify')
+			.setTooltip('Test the connection with the current settings')
+			.onClick(async () => {
+				const provider = createTranscriptionProvider(this.plugin.settings);
+				if (!provider.isConfigured()) {
+					button.setButtonText('Not configured');
+					void setTimeout(() => button.setButtonText('Verify'), 2000);
+					return;
+				}
+
+				button.setButtonText('Verifying...');
+				button.setDisabled(true);
+
+				let result = 'Error';
+				try {
+					result = await provider.verify() ? 'Success' : 'Failed';
+				} catch {
+					result = 'Error';
+				}
+
+				button.setButtonText(result);
+				void setTimeout(() => {
+					button.setButtonText('Verify');
+					button.setDisabled(false);
+				}, 2000);
+			}));
+	}
 }
@@ -0,0 +1,18 @@
+/**
+ * Audio file helpers shared by the API client and session storage
+ */
+
+/**
+ * Map a MIME type to the file extension the transcription API expects
+ * @param mimeType Blob or MediaRecorder MIME type (e.g. "audio/webm;codecs=opus")
+ * @returns File extension without the dot
+ */
+export function getAudioFileExtension(mimeType: string): string {
+  if (mimeType.includes('webm')) return 'webm';
+  if (mimeType.includes('ogg')) return 'ogg';
+  if (mimeType.includes('mp4')) return 'mp4';
+  if (mimeType.includes('mpeg')) return 'mp3';
+  if (mimeType.includes('wav')) return 'wav';
+
+  return 'webm'; // Default fallback
+}
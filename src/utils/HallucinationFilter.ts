@@ -0,0 +1,257 @@
+import type { SegmentTranscription, WhisperSegment } from '../services/WhisperAPI';
+import type { VoiceTranscriberSettings } from '../settings/PluginSettings';
+import { joinSeparator, splitWords } from './TranscriptStitcher';
+
+/**
+ * Whisper 幻覺過濾
+ * 近乎無聲的片段常被轉成「Thanks for watching!」、「字幕由…提供」或不斷重複的句子。
+ * 依 verbose_json 的 no_speech_prob / avg_logprob、各語言的已知幻覺語句、
+ * 重複迴圈與 VAD 量到的人聲比例判斷，可疑片段丟棄或標記
+ */
+
+// drop: 丟棄可疑片段 / flag: 保留並標記 / off: 不過濾
+export type HallucinationAction = 'drop' | 'flag' | 'off';
+
+export const HALLUCINATION_ACTION_OPTIONS: Record<HallucinationAction, string> = {
+  drop: 'Drop suspicious segments',
+  flag: 'Keep and mark with ⚠',
+  off: 'Off'
+};
+
+export interface HallucinationFilterOptions {
+  language?: string;            // 語言代碼；未指定時檢查所有語言的語句
+  noSpeechThreshold: number;    // no_speech_prob 高於此值…
+  logProbThreshold: number;     // …且 avg_logprob 低於此值時視為無聲
+  minVoiceRatio: number;        // 有聲幀比例低於此值時視為無人說話
+  customPhrases: string[];
+}
+
+export interface FilteredTranscription {
+  result: SegmentTranscription;   // 已移除可疑子段落
+  reason: string | null;          // 整段可疑的原因
+}
+
+const COMPRESSION_RATIO_LIMIT = 2.4;   // Whisper 本身判斷重複輸出的門檻
+const MIN_LOOP_REPEATS = 4;
+const MAX_LOOP_WORDS = 10;
+const MIN_LOOP_WORDS = 8;              // 重複部分至少要有這麼多詞
+const LOOP_COVERAGE = 0.5;             // 重複部分占整段的比例
+
+// 字幕網站與影片結尾常見語句；英文的在任何語言下都會出現
+const KNOWN_PHRASES: Record<string, RegExp[]> = {
+  en: [
+    /thanks?( you)? (so much )?for watching/i,
+    /(please )?(like and )?subscribe( to (my|our|the) channel)?/i,
+    /see you (in|on) the next (video|episode)/i,
+    /(subtitles|captions|transcription|transcribed) by [^.!?]*/i,
+    /amara\.org( community)?/i,
+    /^\s*you\s*$/i
+  ],
+  zh: [
+    /字幕(由|提供|制作|製作|志愿者|志願者|组|組)[^。！？]*/,
+    /(谢谢|謝謝|感谢|感謝)(大家)?(观看|觀看|收看)/,
+    /请不吝点赞[^。！？]*|請不吝點贊[^。！？]*/,
+    /(订阅|訂閱)(我的)?(频道|頻道)/,
+    /明镜与点点[^。！？]*|明鏡與點點[^。！？]*/
+  ],
+  ja: [
+    /ご視聴ありがとうございました/,
+    /チャンネル登録(よろしくお願いします)?/,
+    /字幕(作成|制作)[^。！？]*/
+  ],
+  ko: [
+    /시청해\s*주셔서\s*감사합니다/,
+    /구독과\s*좋아요[^.!?]*/,
+    /자막\s*(제작|제공)[^.!?]*/
+  ],
+  es: [
+    /gracias por ver( el video)?/i,
+    /suscr[ií]bete( al canal)?/i,
+    /subt[ií]tulos (realizados )?por [^.!?]*/i
+  ],
+  fr: [
+    /merci d'avoir regardé( cette vidéo)?/i,
+    /abonnez-vous( à la chaîne)?/i,
+    /sous-titr(es|age) (réalisés? )?par [^.!?]*/i
+  ],
+  de: [
+    /danke (fürs|für das) zuschauen/i,
+    /untertitel (im auftrag|von) [^.!?]*/i,
+    /abonniert (den|meinen) kanal/i
+  ],
+  pt: [
+    /obrigad[oa] por assistir/i,
+    /inscreva-se( no canal)?/i,
+    /legendas? (pela|por) [^.!?]*/i
+  ],
+  ru: [
+    /спасибо за просмотр/i,
+    /подписывайтесь( на канал)?/i,
+    /субтитры (сделал|создавал|подогнал)[^.!?]*/i
+  ]
+};
+
+/**
+ * Filter options from the plugin settings
+ */
+export function getHallucinationFilterOptions(settings: VoiceTranscriberSettings): HallucinationFilterOptions {
+  return {
+    language: settings.language === 'auto' ? undefined : settings.language,
+    noSpeechThreshold: settings.noSpeechThreshold,
+    logProbThreshold: settings.logProbThreshold,
+    minVoiceRatio: settings.minVoiceRatio,
+    customPhrases: settings.hallucinationPhrases
+      .split('\n')
+      .map(phrase => phrase.trim())
+      .filter(phrase => phrase.length > 0)
+  };
+}
+
+/**
+ * Run the filter configured in settings
+ * @param voiceRatio Share of analysis frames classified as voice, when the recorder measured it
+ */
+export function screenTranscription(
+  result: SegmentTranscription,
+  settings: VoiceTranscriberSettings,
+  voiceRatio?: number
+): FilteredTranscription {
+  if (settings.hallucinationAction === 'off') {
+    return { result, reason: null };
+  }
+  return filterTranscription(result, getHallucinationFilterOptions(settings), voiceRatio);
+}
+
+/**
+ * Remove phantom sub-segments and decide whether the whole segment is a hallucination
+ */
+export function filterTranscription(
+  result: SegmentTranscription,
+  options: HallucinationFilterOptions,
+  voiceRatio?: number
+): FilteredTranscription {
+  if (!result.text.trim()) {
+    return { result, reason: null };
+  }
+
+  if (voiceRatio !== undefined && voiceRatio < options.minVoiceRatio) {
+    return { result, reason: 'No voice detected in the audio' };
+  }
+
+  const patterns = getPatterns(options);
+  let cleaned = result;
+  let cueReason: string | null = null;
+
+  if (result.segments && result.segments.length > 0) {
+    const kept: WhisperSegment[] = [];
+    for (const cue of result.segments) {
+      const problem = getCueProblem(cue, options, patterns);
+      if (problem) {
+        cueReason = cueReason ?? problem;
+      } else {
+        kept.push(cue);
+      }
+    }
+
+    if (kept.length < result.segments.length) {
+      cleaned = {
+        ...result,
+        text: kept.reduce((text, cue) => {
+          const cueText = cue.text.trim();
+          return text + joinSeparator(text, cueText) + cueText;
+        }, ''),
+        segments: kept,
+        // 逐字時間戳只保留落在剩餘子段落內的
+        words: result.words?.filter(word => kept.some(cue => {
+          const middle = (word.start + word.end) / 2;
+          return middle >= cue.start && middle <= cue.end;
+        }))
+      };
+    }
+  }
+
+  if (!cleaned.text.trim()) {
+    return { result: cleaned, reason: cueReason ?? 'Only silence was transcribed' };
+  }
+  if (isKnownPhrase(cleaned.text, patterns)) {
+    return { result: cleaned, reason: 'Known phantom phrase' };
+  }
+  if (hasRepetitionLoop(cleaned.text)) {
+    return { result: cleaned, reason: 'Repeated text loop' };
+  }
+
+  return { result: cleaned, reason: null };
+}
+
+function getCueProblem(cue: WhisperSegment, options: HallucinationFilterOptions, patterns: RegExp[]): string | null {
+  // 與 Whisper 本身的判斷相同：兩個條件同時成立才算無聲
+  if (cue.no_speech_prob !== undefined && cue.avg_logprob !== undefined
+    && cue.no_speech_prob > options.noSpeechThreshold && cue.avg_logprob < options.logProbThreshold) {
+    return 'Only silence was transcribed';
+  }
+  if (cue.compression_ratio !== undefined && cue.compression_ratio > COMPRESSION_RATIO_LIMIT) {
+    return 'Repeated text loop';
+  }
+  if (isKnownPhrase(cue.text, patterns)) {
+    return 'Known phantom phrase';
+  }
+  return null;
+}
+
+function getPatterns(options: HallucinationFilterOptions): RegExp[] {
+  const languages = options.language && KNOWN_PHRASES[options.language]
+    ? ['en', options.language]
+    : Object.keys(KNOWN_PHRASES);
+
+  const patterns = Array.from(new Set(languages))
+    .reduce<RegExp[]>((all, language) => all.concat(KNOWN_PHRASES[language]), []);
+  const custom = options.customPhrases.map(phrase => new RegExp(escapeRegExp(phrase), 'i'));
+  return [...patterns, ...custom].map(pattern => new RegExp(pattern.source, `${pattern.flags}g`));
+}
+
+/**
+ * Whether the text consists of nothing but known phrases
+ */
+function isKnownPhrase(text: string, patterns: RegExp[]): boolean {
+  if (splitWords(text).length === 0) return false;
+
+  const remainder = patterns.reduce((rest, pattern) => rest.replace(pattern, ' '), text);
+  return splitWords(remainder).length === 0;
+}
+
+/**
+ * Whether a run of 1-10 words repeats back to back and makes up most of the text
+ */
+function hasRepetitionLoop(text: string): boolean {
+  const words = splitWords(text);
+
+  for (let size = 1; size <= MAX_LOOP_WORDS; size++) {
+    for (let start = 0; start + size * MIN_LOOP_REPEATS <= words.length; start++) {
+      let repeats = 1;
+      while (isRepeat(words, start, size, repeats)) {
+        repeats++;
+      }
+
+      const covered = repeats * size;
+      if (repeats >= MIN_LOOP_REPEATS && covered >= MIN_LOOP_WORDS && covered >= words.length * LOOP_COVERAGE) {
+        return true;
+      }
+    }
+  }
+
+  return false;
+}
+
+function isRepeat(words: string[], start: number, size: number, repeat: number): boolean {
+  const offset = start + repeat * size;
+  if (offset + size > words.length) return false;
+
+  for (let i = 0; i < size; i++) {
+    if (words[start + i] !== words[offset + i]) return false;
+  }
+  return true;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
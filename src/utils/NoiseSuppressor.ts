@@ -0,0 +1,235 @@
+/**
+ * STFT 譜減法降噪
+ * 以 50% 重疊的 sqrt-Hann 窗做短時傅立葉轉換，逐頻帶追蹤噪音底線後扣除，再以重疊相加合成。
+ * 類別本身不引用模組內的其他宣告，PcmCapture 會把它的原始碼直接放進 AudioWorklet 執行
+ */
+
+export interface NoiseSuppressorOptions {
+  frameSize?: number;       // 2 的次方；16 kHz 下 512 約 32 ms
+  overSubtraction?: number; // 扣除的噪音倍數
+  gainFloor?: number;       // 最小增益，保留少量噪音以避免音樂噪音
+}
+
+export class StftNoiseSuppressor {
+  private frameSize: number;
+  private hop: number;
+  private overSubtraction: number;
+  private gainFloor: number;
+  private window: Float32Array;
+  private cosTable: Float32Array;
+  private sinTable: Float32Array;
+  private reversed: Uint32Array;
+  private frame: Float32Array;      // 最近 frameSize 個輸入樣本
+  private pending: Float32Array;    // 尚未湊滿一個 hop 的輸入
+  private overlap: Float32Array;    // 重疊相加的累加區
+  private ready: Float32Array;      // 已完成合成、等待輸出的 hop
+  private filled = 0;
+  private real: Float32Array;
+  private imag: Float32Array;
+  private smoothedPower: Float32Array;
+  private noisePower: Float32Array;
+  private gains: Float32Array;
+  private frames = 0;
+
+  constructor(options: NoiseSuppressorOptions = {}) {
+    this.frameSize = options.frameSize ?? 512;
+    this.hop = this.frameSize / 2;
+    this.overSubtraction = options.overSubtraction ?? 2;
+    this.gainFloor = options.gainFloor ?? 0.1;
+
+    const size = this.frameSize;
+    const bins = size / 2 + 1;
+
+    // 週期性 sqrt-Hann：分析與合成各乘一次，50% 重疊相加後總和為 1
+    this.window = new Float32Array(size);
+    for (let i = 0; i < size; i++) {
+      this.window[i] = Math.sqrt(0.5 - 0.5 * Math.cos(2 * Math.PI * i / size));
+    }
+
+    this.cosTable = new Float32Array(size / 2);
+    this.sinTable = new Float32Array(size / 2);
+    for (let i = 0; i < size / 2; i++) {
+      this.cosTable[i] = Math.cos(2 * Math.PI * i / size);
+      this.sinTable[i] = Math.sin(2 * Math.PI * i / size);
+    }
+
+    const bits = Math.round(Math.log(size) / Math.LN2);
+    this.reversed = new Uint32Array(size);
+    for (let i = 0; i < size; i++) {
+      let value = 0;
+      for (let bit = 0; bit < bits; bit++) {
+        value = (value << 1) | ((i >> bit) & 1);
+      }
+      this.reversed[i] = value;
+    }
+
+    this.frame = new Float32Array(size);
+    this.pending = new Float32Array(this.hop);
+    this.overlap = new Float32Array(size);
+    this.ready = new Float32Array(this.hop);
+    this.real = new Float32Array(size);
+    this.imag = new Float32Array(size);
+    this.smoothedPower = new Float32Array(bins);
+    this.noisePower = new Float32Array(bins);
+    this.gains = new Float32Array(bins);
+  }
+
+  /** Delay between an input sample and its processed output, in samples */
+  get latency(): number {
+    return this.frameSize;
+  }
+
+  /**
+   * Process one sample; the result is the processed sample from `latency` samples ago
+   */
+  processSample(sample: number): number {
+    const output = this.ready[this.filled];
+    this.pending[this.filled] = sample;
+    this.filled++;
+
+    if (this.filled === this.hop) {
+      this.filled = 0;
+      this.processFrame();
+    }
+    return output;
+  }
+
+  /**
+   * Process a block of samples; output has the same length, delayed by `latency`
+   */
+  process(input: Float32Array): Float32Array {
+    const output = new Float32Array(input.length);
+    for (let i = 0; i < input.length; i++) {
+      output[i] = this.processSample(input[i]);
+    }
+    return output;
+  }
+
+  reset(): void {
+    this.frame.fill(0);
+    this.pending.fill(0);
+    this.overlap.fill(0);
+    this.ready.fill(0);
+    this.filled = 0;
+    this.frames = 0;
+  }
+
+  private processFrame(): void {
+    const size = this.frameSize;
+    const hop = this.hop;
+
+    this.frame.copyWithin(0, hop);
+    this.frame.set(this.pending, size - hop);
+
+    for (let i = 0; i < size; i++) {
+      this.real[i] = this.frame[i] * this.window[i];
+      this.imag[i] = 0;
+    }
+    this.fft(this.real, this.imag);
+
+    this.updateGains();
+    for (let k = 0; k <= size / 2; k++) {
+      const gain = this.gains[k];
+      this.real[k] *= gain;
+      this.imag[k] *= gain;
+      if (k > 0 && k < size / 2) {
+        this.real[size - k] *= gain;
+        this.imag[size - k] *= gain;
+      }
+    }
+
+    // 反轉換：共軛後正轉換再共軛，除以長度
+    for (let i = 0; i < size; i++) {
+      this.imag[i] = -this.imag[i];
+    }
+    this.fft(this.real, this.imag);
+
+    for (let i = 0; i < size; i++) {
+      this.overlap[i] += (this.real[i] / size) * this.window[i];
+    }
+
+    this.ready.set(this.overlap.subarray(0, hop));
+    this.overlap.copyWithin(0, hop);
+    this.overlap.fill(0, size - hop);
+    this.frames++;
+  }
+
+  private updateGains(): void {
+    const bins = this.frameSize / 2 + 1;
+
+    for (let k = 0; k < bins; k++) {
+      const power = this.real[k] * this.real[k] + this.imag[k] * this.imag[k];
+
+      if (this.frames === 0) {
+        this.smoothedPower[k] = power;
+        this.noisePower[k] = power;
+      } else {
+        this.smoothedPower[k] = 0.7 * this.smoothedPower[k] + 0.3 * power;
+        // 低於噪音估計時立即下修；開頭約 0.25 秒一律當作噪音學習；
+        // 之後明顯高於噪音的頻帶視為有語音，噪音估計只緩慢上升（約十幾秒），其餘以遞迴平均追蹤噪音
+        if (this.smoothedPower[k] < this.noisePower[k]) {
+          this.noisePower[k] = this.smoothedPower[k];
+        } else if (this.frames > 15 && this.smoothedPower[k] > 3 * this.noisePower[k]) {
+          this.noisePower[k] += (this.smoothedPower[k] - this.noisePower[k]) * 0.001;
+        } else {
+          this.noisePower[k] = 0.9 * this.noisePower[k] + 0.1 * power;
+        }
+      }
+
+      let gain = 1;
+      if (power > 0) {
+        gain = Math.sqrt(Math.max(this.gainFloor * this.gainFloor, 1 - this.overSubtraction * this.noisePower[k] / power));
+      }
+      // 增益下降時平滑以減少音樂噪音；上升時立即跟上，避免吃掉字首
+      this.gains[k] = this.frames === 0 || gain > this.gains[k] ? gain : 0.5 * this.gains[k] + 0.5 * gain;
+    }
+  }
+
+  /**
+   * In-place iterative radix-2 FFT
+   */
+  private fft(real: Float32Array, imag: Float32Array): void {
+    const size = this.frameSize;
+
+    for (let i = 0; i < size; i++) {
+      const j = this.reversed[i];
+      if (j > i) {
+        let temp = real[i];
+        real[i] = real[j];
+        real[j] = temp;
+        temp = imag[i];
+        imag[i] = imag[j];
+        imag[j] = temp;
+      }
+    }
+
+    for (let length = 2; length <= size; length *= 2) {
+      const half = length / 2;
+      const step = size / length;
+      for (let start = 0; start < size; start += length) {
+        for (let i = 0; i < half; i++) {
+          const cos = this.cosTable[i * step];
+          const sin = -this.sinTable[i * step];
+          const a = start + i;
+          const b = a + half;
+          const tr = real[b] * cos - imag[b] * sin;
+          const ti = real[b] * sin + imag[b] * cos;
+          real[b] = real[a] - tr;
+          imag[b] = imag[a] - ti;
+          real[a] += tr;
+          imag[a] += ti;
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Denoise a whole recording; the result is aligned with the input (same length, no delay)
+ */
+export function suppressNoise(samples: Float32Array, options: NoiseSuppressorOptions = {}): Float32Array {
+  const suppressor = new StftNoiseSuppressor(options);
+  const padded = new Float32Array(samples.length + suppressor.latency);
+  padded.set(samples);
+  return suppressor.process(padded).subarray(suppressor.latency);
+}
@@ -0,0 +1,69 @@
+/**
+ * 固定容量的 PCM 環形緩衝區
+ * 以「自錄音開始的絕對樣本位置」定址，寫滿後覆蓋最舊的樣本
+ */
+export class PcmRingBuffer {
+  private buffer: Float32Array;
+  private written = 0;   // 已寫入的樣本總數（絕對位置）
+
+  constructor(capacity: number) {
+    this.buffer = new Float32Array(Math.max(1, Math.floor(capacity)));
+  }
+
+  write(samples: Float32Array): void {
+    const capacity = this.buffer.length;
+
+    // 一次寫入超過容量時只保留最後一段
+    const source = samples.length > capacity ? samples.subarray(samples.length - capacity) : samples;
+    const skipped = samples.length - source.length;
+    const offset = (this.written + skipped) % capacity;
+    const firstPart = Math.min(source.length, capacity - offset);
+
+    this.buffer.set(source.subarray(0, firstPart), offset);
+    if (firstPart < source.length) {
+      this.buffer.set(source.subarray(firstPart), 0);
+    }
+
+    this.written += samples.length;
+  }
+
+  /**
+   * Copy samples between two absolute positions
+   * @param start Absolute position (inclusive), clamped to the oldest available sample
+   * @param end Absolute position (exclusive), clamped to the newest sample
+   */
+  read(start: number, end: number): Float32Array {
+    const from = Math.max(start, this.oldest);
+    const to = Math.min(end, this.written);
+    if (to <= from) return new Float32Array(0);
+
+    const capacity = this.buffer.length;
+    const result = new Float32Array(to - from);
+    const offset = from % capacity;
+    const firstPart = Math.min(result.length, capacity - offset);
+
+    result.set(this.buffer.subarray(offset, offset + firstPart));
+    if (firstPart < result.length) {
+      result.set(this.buffer.subarray(0, result.length - firstPart), firstPart);
+    }
+    return result;
+  }
+
+  /** Absolute position of the next sample to be written */
+  get position(): number {
+    return this.written;
+  }
+
+  /** Absolute position of the oldest sample still in the buffer */
+  get oldest(): number {
+    return Math.max(0, this.written - this.buffer.length);
+  }
+
+  get capacity(): number {
+    return this.buffer.length;
+  }
+
+  reset(): void {
+    this.written = 0;
+  }
+}
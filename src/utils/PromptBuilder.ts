@@ -0,0 +1,60 @@
+/**
+ * Whisper prompt 組合工具
+ * prompt 上限約 224 tokens，詞彙表放前面，上一段結尾放最後（模型最重視 prompt 的尾端）
+ */
+
+const MAX_GLOSSARY_CHARS = 600;
+const MAX_CONTEXT_CHARS = 200;
+
+/**
+ * Split a glossary into terms; accepts commas, semicolons, new lines and markdown list items
+ */
+export function parseGlossary(text: string): string[] {
+  const terms = text
+    .split(/[\n,;]/)
+    .map(line => line
+      .replace(/^\s*(?:[-*+]|\d+\.)\s+/, '')   // 清單符號
+      .replace(/\[\[([^\]|]+)(?:\|([^\]]+))?\]\]/g, (_, target: string, alias?: string) => alias ?? target)
+      .trim())
+    .filter(term => term.length > 0 && !term.startsWith('#'));
+
+  return Array.from(new Set(terms));
+}
+
+/**
+ * The end of the previous segment, cut at a word boundary
+ */
+export function getContextTail(text: string, maxChars = MAX_CONTEXT_CHARS): string {
+  const trimmed = text.trim();
+  if (trimmed.length <= maxChars) return trimmed;
+
+  const tail = trimmed.slice(-maxChars);
+  const boundary = tail.search(/\s/);
+  // 沒有空白的語言（中日文）直接截斷
+  return boundary > 0 && boundary < maxChars / 2 ? tail.slice(boundary + 1) : tail;
+}
+
+/**
+ * Combine glossary terms and the previous segment's tail into a prompt
+ * @returns undefined when there is nothing to send
+ */
+export function buildTranscriptionPrompt(terms: string[], previousText?: string): string | undefined {
+  const parts: string[] = [];
+
+  let glossary = '';
+  for (const term of terms) {
+    const next = glossary ? `${glossary}, ${term}` : term;
+    if (next.length > MAX_GLOSSARY_CHARS) break;
+    glossary = next;
+  }
+  if (glossary) {
+    parts.push(`${glossary}.`);
+  }
+
+  const context = previousText ? getContextTail(previousText) : '';
+  if (context) {
+    parts.push(context);
+  }
+
+  return parts.length > 0 ? parts.join(' ') : undefined;
+}
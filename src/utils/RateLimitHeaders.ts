@@ -0,0 +1,92 @@
+/**
+ * Rate-limit response headers
+ * Retry-After 可能是秒數或 HTTP 日期；OpenAI 與 Groq 另有 x-ratelimit-*，重置時間格式如 "1s"、"6m0s"、"20ms"
+ */
+
+export interface RateLimitState {
+  remainingRequests?: number;
+  resetRequests?: number;    // ms until the request budget refills
+  remainingTokens?: number;
+  resetTokens?: number;      // ms until the token budget refills
+}
+
+/**
+ * Parse a reset duration such as "1s", "6m0s", "2m59.56s" or "20ms" into milliseconds
+ */
+export function parseResetDuration(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const text = value.trim();
+
+  // 純數字視為秒
+  if (/^\d+(\.\d+)?$/.test(text)) {
+    return parseFloat(text) * 1000;
+  }
+
+  const pattern = /(\d+(?:\.\d+)?)(ms|h|m|s)/g;
+  const units: Record<string, number> = { h: 3600000, m: 60000, s: 1000, ms: 1 };
+  let total = 0;
+  let consumed = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    total += parseFloat(match[1]) * units[match[2]];
+    consumed += match[0].length;
+  }
+  return consumed > 0 && consumed === text.length ? total : undefined;
+}
+
+/**
+ * How long a rate-limited (429) response asked us to wait, in milliseconds
+ * Without Retry-After, only a budget that is used up gives a wait; otherwise the caller backs off as usual
+ * @param headers Response headers with lowercase names
+ */
+export function parseRetryAfter(headers: Record<string, string>, now = Date.now()): number | undefined {
+  const retryAfter = parseRetryAfterHeader(headers, now);
+  if (retryAfter !== undefined) return retryAfter;
+
+  // 沒有 Retry-After 時，等到用完的那個額度重置
+  const state = parseRateLimit(headers);
+  if (state.remainingRequests === 0 && state.resetRequests !== undefined) {
+    return state.resetRequests;
+  }
+  if (state.remainingTokens === 0 && state.resetTokens !== undefined) {
+    return state.resetTokens;
+  }
+  return undefined;
+}
+
+/**
+ * The Retry-After (or retry-after-ms) header alone, in milliseconds
+ * x-ratelimit-* 每個回應都會帶，不能拿來決定其他錯誤的等待時間
+ */
+export function parseRetryAfterHeader(headers: Record<string, string>, now = Date.now()): number | undefined {
+  const milliseconds = headers['retry-after-ms'];
+  if (milliseconds && /^\d+(\.\d+)?$/.test(milliseconds.trim())) {
+    return parseFloat(milliseconds);
+  }
+
+  const retryAfter = headers['retry-after']?.trim();
+  if (retryAfter) {
+    if (/^\d+(\.\d+)?$/.test(retryAfter)) {
+      return parseFloat(retryAfter) * 1000;
+    }
+    const date = Date.parse(retryAfter);
+    if (!isNaN(date)) {
+      return Math.max(0, date - now);
+    }
+  }
+  return undefined;
+}
+
+export function parseRateLimit(headers: Record<string, string>): RateLimitState {
+  return {
+    remainingRequests: parseCount(headers['x-ratelimit-remaining-requests']),
+    resetRequests: parseResetDuration(headers['x-ratelimit-reset-requests']),
+    remainingTokens: parseCount(headers['x-ratelimit-remaining-tokens']),
+    resetTokens: parseResetDuration(headers['x-ratelimit-reset-tokens'])
+  };
+}
+
+function parseCount(value: string | undefined): number | undefined {
+  if (!value || !/^\d+$/.test(value.trim())) return undefined;
+  return parseInt(value, 10);
+}
@@ -0,0 +1,146 @@
+import type { TranscriptCue, TranscriptSegment, TranscriptWord } from '../services/SegmentManager';
+import { countWords, joinSeparator, removeLeadingWords, removeTrailingWords, splitWords } from './TranscriptStitcher';
+
+/**
+ * 片段切分與合併的文字、時間計算
+ * 有子段落時在最接近中間的子段落邊界切開；只有逐字時間戳時在中間的詞切開；
+ * 都沒有（或文字已被修改）時在最接近中間的句子結尾切開，時間依文字位置估計
+ */
+
+export interface SegmentContent {
+  text: string;
+  translation?: string;
+  cues?: TranscriptCue[];
+  words?: TranscriptWord[];
+}
+
+export interface SplitPlan {
+  time: number;    // seconds since session start
+  first: SegmentContent;
+  second: SegmentContent;
+}
+
+const SENTENCE_END_PATTERN = /[.!?。！？…]+["'”’」』)）]*\s*/g;
+
+/**
+ * Where to split a transcribed segment in two, or null when it is too short
+ * The translation can't be divided and stays with the first half
+ */
+export function planSplit(segment: TranscriptSegment): SplitPlan | null {
+  const text = segment.text.trim();
+  const start = segment.startTime ?? 0;
+  const end = segment.endTime ?? start;
+  if (countWords(text) < 2 || end <= start) return null;
+
+  const plan = splitAtCue(segment, text) ?? splitAtWord(segment, text) ?? splitAtSentence(text, start, end);
+  if (!plan || !plan.first.text || !plan.second.text) return null;
+
+  plan.first.translation = segment.translation;
+  plan.first.words = segment.words?.filter(word => word.start < plan.time);
+  plan.second.words = segment.words?.filter(word => word.start >= plan.time);
+  return plan;
+}
+
+/**
+ * Text and timings of two consecutive segments joined into one
+ */
+export function mergeContent(first: TranscriptSegment, second: TranscriptSegment): SegmentContent {
+  const translations = [first.translation, second.translation]
+    .filter((translation): translation is string => !!translation)
+    .map(translation => translation.trim());
+
+  return {
+    text: joinTexts([first.text.trim(), second.text.trim()]),
+    translation: translations.length > 0 ? joinTexts(translations) : undefined,
+    cues: first.cues || second.cues ? [...toCues(first), ...toCues(second)] : undefined,
+    words: first.words && second.words ? [...first.words, ...second.words] : undefined
+  };
+}
+
+function splitAtCue(segment: TranscriptSegment, text: string): SplitPlan | null {
+  const cues = segment.cues ?? [];
+  // 使用者改過文字後子段落就對不上了
+  if (cues.length < 2 || !sameWords(joinTexts(cues.map(cue => cue.text)), text)) return null;
+
+  const total = cues.reduce((sum, cue) => sum + cue.text.length, 0);
+  let index = 1;
+  let bestDistance = Infinity;
+  let length = 0;
+  for (let i = 1; i < cues.length; i++) {
+    length += cues[i - 1].text.length;
+    const distance = Math.abs(length - total / 2);
+    if (distance < bestDistance) {
+      index = i;
+      bestDistance = distance;
+    }
+  }
+
+  const firstCues = cues.slice(0, index);
+  const secondCues = cues.slice(index);
+  return {
+    time: gapMiddle(firstCues[firstCues.length - 1].end, secondCues[0].start),
+    first: { text: joinTexts(firstCues.map(cue => cue.text)), cues: firstCues },
+    second: { text: joinTexts(secondCues.map(cue => cue.text)), cues: secondCues }
+  };
+}
+
+function splitAtWord(segment: TranscriptSegment, text: string): SplitPlan | null {
+  const words = segment.words ?? [];
+  if (words.length < 2 || countWords(text) !== words.length) return null;
+
+  const index = Math.round(words.length / 2);
+  return {
+    time: gapMiddle(words[index - 1].end, words[index].start),
+    first: { text: removeTrailingWords(text, words.length - index).trim(), cues: undefined },
+    second: { text: removeLeadingWords(text, index).trim(), cues: undefined }
+  };
+}
+
+function splitAtSentence(text: string, start: number, end: number): SplitPlan | null {
+  const middle = text.length / 2;
+  let index = -1;
+
+  const pattern = new RegExp(SENTENCE_END_PATTERN.source, 'g');
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    const boundary = match.index + match[0].length;
+    if (boundary < text.length && (index === -1 || Math.abs(boundary - middle) < Math.abs(index - middle))) {
+      index = boundary;
+    }
+  }
+
+  if (index === -1) {
+    // 沒有句子結尾就找最接近中間的空白；中日文沒有空白時直接從中間切
+    const before = text.lastIndexOf(' ', middle);
+    const after = text.indexOf(' ', middle);
+    const candidates = [before, after].filter(position => position > 0);
+    index = candidates.length > 0
+      ? candidates.reduce((best, position) => Math.abs(position - middle) < Math.abs(best - middle) ? position : best)
+      : Math.round(middle);
+  }
+
+  return {
+    time: start + (end - start) * (index / text.length),
+    first: { text: text.slice(0, index).trim(), cues: undefined },
+    second: { text: text.slice(index).trim(), cues: undefined }
+  };
+}
+
+function toCues(segment: TranscriptSegment): TranscriptCue[] {
+  if (segment.cues && segment.cues.length > 0) return segment.cues;
+
+  const start = segment.startTime ?? 0;
+  return [{ start, end: segment.endTime ?? start, text: segment.text.trim() }];
+}
+
+function gapMiddle(end: number, start: number): number {
+  return start > end ? (end + start) / 2 : start;
+}
+
+function joinTexts(parts: string[]): string {
+  return parts.reduce((text, part) => text + joinSeparator(text, part) + part, '');
+}
+
+function sameWords(a: string, b: string): boolean {
+  return splitWords(a).join(' ') === splitWords(b).join(' ');
+}
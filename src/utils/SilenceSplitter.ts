@@ -0,0 +1,139 @@
+/**
+ * 長音訊切段工具
+ * 以短時能量估計背景噪音，在每段上限前的最安靜處切開，避免把句子切斷
+ */
+
+export interface AudioChunkRange {
+  start: number;   // sample index (inclusive)
+  end: number;     // sample index (exclusive)
+}
+
+export interface SilenceSplitOptions {
+  maxChunkSeconds: number;
+  minChunkSeconds?: number;     // 切點搜尋範圍的起點，預設為上限的 75%
+  frameSeconds?: number;        // 能量分析的幀長
+  silenceWindowSeconds?: number; // 判斷靜音所需的最短持續時間
+}
+
+/**
+ * Split samples into chunks no longer than maxChunkSeconds, cutting in the quietest window
+ * @param samples Mono PCM samples
+ * @param sampleRate Sample rate in Hz
+ * @returns Consecutive, non-overlapping chunk ranges covering the whole signal
+ */
+export function splitAtSilences(
+  samples: Float32Array,
+  sampleRate: number,
+  options: SilenceSplitOptions
+): AudioChunkRange[] {
+  const maxChunk = Math.floor(options.maxChunkSeconds * sampleRate);
+  if (samples.length <= maxChunk) {
+    return [{ start: 0, end: samples.length }];
+  }
+
+  const frameSize = Math.max(1, Math.floor((options.frameSeconds ?? 0.03) * sampleRate));
+  const energies = computeFrameEnergies(samples, frameSize);
+  const windowFrames = Math.max(1, Math.round((options.silenceWindowSeconds ?? 0.3) * sampleRate / frameSize));
+  const minChunk = Math.floor((options.minChunkSeconds ?? options.maxChunkSeconds * 0.75) * sampleRate);
+
+  const chunks: AudioChunkRange[] = [];
+  let start = 0;
+
+  while (samples.length - start > maxChunk) {
+    const searchStart = Math.floor((start + minChunk) / frameSize);
+    const searchEnd = Math.floor((start + maxChunk) / frameSize) - windowFrames;
+    const cutFrame = findQuietestWindow(energies, searchStart, searchEnd, windowFrames);
+
+    // 切在最安靜窗口的中央
+    const cut = cutFrame >= 0
+      ? Math.min(start + maxChunk, (cutFrame + Math.floor(windowFrames / 2)) * frameSize)
+      : start + maxChunk;
+
+    chunks.push({ start, end: cut });
+    start = cut;
+  }
+
+  chunks.push({ start, end: samples.length });
+  return chunks;
+}
+
+/**
+ * Short-time energy (mean square) per frame
+ */
+export function computeFrameEnergies(samples: Float32Array, frameSize: number): Float32Array {
+  const frameCount = Math.ceil(samples.length / frameSize);
+  const energies = new Float32Array(frameCount);
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    const begin = frame * frameSize;
+    const end = Math.min(begin + frameSize, samples.length);
+    let sum = 0;
+    for (let i = begin; i < end; i++) {
+      sum += samples[i] * samples[i];
+    }
+    energies[frame] = sum / Math.max(1, end - begin);
+  }
+
+  return energies;
+}
+
+/**
+ * Sample-accurate cut point: the quietest sample inside the quietest frame
+ * @param samples Mono PCM samples to search
+ * @param sampleRate Sample rate in Hz
+ * @param frameSeconds Frame length used to find the quiet region
+ * @returns Index into samples; later positions win ties
+ */
+export function findQuietestSample(samples: Float32Array, sampleRate: number, frameSeconds = 0.01): number {
+  if (samples.length === 0) return 0;
+
+  const frameSize = Math.max(1, Math.floor(frameSeconds * sampleRate));
+  const energies = computeFrameEnergies(samples, frameSize);
+
+  let quietestFrame = 0;
+  for (let frame = 1; frame < energies.length; frame++) {
+    if (energies[frame] <= energies[quietestFrame]) {
+      quietestFrame = frame;
+    }
+  }
+
+  // 幀內再找振幅最小（最接近過零）的樣本，切點不會產生爆音
+  const begin = quietestFrame * frameSize;
+  const end = Math.min(begin + frameSize, samples.length);
+  let best = begin;
+  for (let i = begin + 1; i < end; i++) {
+    if (Math.abs(samples[i]) <= Math.abs(samples[best])) {
+      best = i;
+    }
+  }
+  return best;
+}
+
+function findQuietestWindow(
+  energies: Float32Array,
+  searchStart: number,
+  searchEnd: number,
+  windowFrames: number
+): number {
+  if (searchEnd <= searchStart) return -1;
+
+  // 滑動窗口平均能量
+  let windowSum = 0;
+  for (let i = searchStart; i < searchStart + windowFrames && i < energies.length; i++) {
+    windowSum += energies[i];
+  }
+
+  let bestFrame = searchStart;
+  let bestSum = windowSum;
+
+  for (let frame = searchStart + 1; frame <= searchEnd && frame + windowFrames - 1 < energies.length; frame++) {
+    windowSum += energies[frame + windowFrames - 1] - energies[frame - 1];
+    // 偏好較晚的切點，讓每段盡量長
+    if (windowSum <= bestSum) {
+      bestSum = windowSum;
+      bestFrame = frame;
+    }
+  }
+
+  return bestFrame;
+}
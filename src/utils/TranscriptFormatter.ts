@@ -0,0 +1,307 @@
+import type { RecordingPause, TranscriptCue, TranscriptSegment } from '../services/SegmentManager';
+
+/**
+ * Transcript output formats
+ * 所有時間皆為相對於工作階段開始的秒數，可直接對應工作階段錄音檔
+ */
+
+export type TranscriptExportFormat = 'text' | 'json' | 'srt' | 'vtt' | 'markdown';
+
+// 說話者編號 → 使用者命名，未命名者顯示為 "Speaker N"
+export type SpeakerNames = Record<string, string>;
+
+export interface TranscriptFormatOptions {
+  includeTimestamps?: boolean;
+  speakerNames?: SpeakerNames;
+  pauses?: RecordingPause[];    // 錄音暫停處，SRT 以外的格式會標出
+  sessions?: SessionPauses[];   // 片段來自多個工作階段時取代 pauses，各自對應自己的片段
+}
+
+/**
+ * Pauses of one recording session and the segments recorded in it
+ * (each session's times start from zero)
+ */
+export interface SessionPauses {
+  segmentIds: string[];
+  pauses: RecordingPause[];
+}
+
+export type TimelineEntry<T> =
+  | { segment: T; pause?: undefined }
+  | { pause: RecordingPause; segment?: undefined };
+
+export const EXPORT_FORMATS: Record<TranscriptExportFormat, { label: string; extension: string }> = {
+  text: { label: 'Plain text', extension: 'txt' },
+  markdown: { label: 'Markdown with timecodes', extension: 'md' },
+  srt: { label: 'SubRip subtitles (SRT)', extension: 'srt' },
+  vtt: { label: 'WebVTT captions', extension: 'vtt' },
+  json: { label: 'Verbose JSON', extension: 'json' }
+};
+
+/**
+ * Format completed segments in the requested output format
+ */
+export function formatTranscript(
+  segments: TranscriptSegment[],
+  format: TranscriptExportFormat,
+  options: TranscriptFormatOptions = {}
+): string {
+  const completed = segments.filter(segment => !segment.isProcessing && segment.text.trim());
+  const names = options.speakerNames;
+  const timeline = toTimeline(completed, getPausesBefore(completed, options));
+
+  switch (format) {
+    case 'srt':
+      // SRT 沒有註解語法；錄音檔本身也不含暫停的時間
+      return formatSrt(completed, names);
+    case 'vtt':
+      return formatWebVtt(timeline, names);
+    case 'markdown':
+      return formatMarkdown(timeline, names);
+    case 'json':
+      return formatJson(timeline, names);
+    case 'text':
+    default:
+      return formatPlainText(timeline, options.includeTimestamps, names);
+  }
+}
+
+/**
+ * Segments in the given order, each preceded by the pauses right before it in recording order
+ * Pauses after the last segment are left out
+ */
+export function interleavePauses<T extends { startTime?: number }>(
+  segments: T[],
+  pauses: RecordingPause[] = []
+): TimelineEntry<T>[] {
+  return toTimeline(segments, matchPauses(segments, pauses));
+}
+
+/**
+ * Pauses of each segment, matched per session so times from different sessions never mix
+ */
+function getPausesBefore(
+  segments: TranscriptSegment[],
+  options: TranscriptFormatOptions
+): Map<TranscriptSegment, RecordingPause[]> {
+  if (!options.sessions) {
+    return matchPauses(segments, options.pauses ?? []);
+  }
+
+  const before = new Map<TranscriptSegment, RecordingPause[]>();
+  for (const session of options.sessions) {
+    const recorded = segments.filter(segment => session.segmentIds.indexOf(segment.id) !== -1);
+    matchPauses(recorded, session.pauses).forEach((pauses, segment) => before.set(segment, pauses));
+  }
+  return before;
+}
+
+/**
+ * Each pause goes to the first segment recorded after it, whatever order the segments are in
+ */
+function matchPauses<T extends { startTime?: number }>(
+  segments: T[],
+  pauses: RecordingPause[]
+): Map<T, RecordingPause[]> {
+  const before = new Map<T, RecordingPause[]>();
+  const remaining = [...pauses].sort((a, b) => a.at - b.at);
+  const recorded = [...segments].sort((a, b) => (a.startTime ?? 0) - (b.startTime ?? 0));
+  let next = 0;
+
+  // 以錄音時間比對，使用者調整過的順序不影響暫停歸屬
+  for (const segment of recorded) {
+    const matched: RecordingPause[] = [];
+    while (next < remaining.length && (segment.startTime ?? 0) >= remaining[next].at) {
+      matched.push(remaining[next++]);
+    }
+    if (matched.length > 0) before.set(segment, matched);
+  }
+  return before;
+}
+
+function toTimeline<T>(segments: T[], before: Map<T, RecordingPause[]>): TimelineEntry<T>[] {
+  const entries: TimelineEntry<T>[] = [];
+  for (const segment of segments) {
+    for (const pause of before.get(segment) ?? []) {
+      entries.push({ pause });
+    }
+    entries.push({ segment });
+  }
+  return entries;
+}
+
+/**
+ * Human-readable pause length, e.g. "45s", "2m 13s" or "1h 05m"
+ */
+export function formatPauseDuration(seconds: number): string {
+  const total = Math.max(0, Math.round(seconds));
+  const hours = Math.floor(total / 3600);
+  const mins = Math.floor((total % 3600) / 60);
+  const secs = total % 60;
+
+  if (hours > 0) return `${hours}h ${pad(mins, 2)}m`;
+  if (mins > 0) return `${mins}m ${pad(secs, 2)}s`;
+  return `${secs}s`;
+}
+
+/**
+ * Caption cues for a list of segments; segments without verbose timing become a single cue
+ */
+export function getCues(segments: TranscriptSegment[]): TranscriptCue[] {
+  const cues: TranscriptCue[] = [];
+
+  for (const segment of segments) {
+    if (segment.cues && segment.cues.length > 0) {
+      cues.push(...segment.cues.map(cue => ({ ...cue, speaker: segment.speaker })));
+    } else {
+      const start = segment.startTime ?? 0;
+      cues.push({
+        start,
+        end: segment.endTime ?? start,
+        text: segment.text.trim(),
+        speaker: segment.speaker
+      });
+    }
+  }
+
+  return cues.filter(cue => cue.text.length > 0);
+}
+
+/**
+ * Segment tags as Obsidian tags after the text, e.g. " #todo #decision"; empty without tags
+ */
+export function formatTags(tags?: string[]): string {
+  return tags && tags.length > 0 ? tags.map(tag => ` #${tag}`).join('') : '';
+}
+
+/**
+ * Normalize user input into a tag: no leading #, spaces become dashes
+ * @returns null when nothing usable is left
+ */
+export function normalizeTag(value: string): string | null {
+  const tag = value.trim().replace(/^#+/, '').replace(/\s+/g, '-');
+  return tag ? tag : null;
+}
+
+/**
+ * Display name of a speaker
+ */
+export function getSpeakerName(speaker: number, names?: SpeakerNames): string {
+  return names?.[String(speaker)]?.trim() || `Speaker ${speaker}`;
+}
+
+/**
+ * Format seconds as a timecode
+ * @param seconds Offset from session start
+ * @param separator Millisecond separator ("," for SRT, "." for WebVTT), omitted when null
+ */
+export function formatTimecode(seconds: number, separator: ',' | '.' | null = null): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const mins = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+
+  const base = `${pad(hours, 2)}:${pad(mins, 2)}:${pad(secs, 2)}`;
+  return separator ? `${base}${separator}${pad(ms, 3)}` : base;
+}
+
+function formatSrt(segments: TranscriptSegment[], names?: SpeakerNames): string {
+  const cues = getCues(segments);
+  return cues
+    .map((cue, index) => [
+      String(index + 1),
+      `${formatTimecode(cue.start, ',')} --> ${formatTimecode(getCueEnd(cue, cues[index + 1]), ',')}`,
+      cue.speaker !== undefined ? `${getSpeakerName(cue.speaker, names)}: ${cue.text}` : cue.text
+    ].join('\n'))
+    .join('\n\n') + '\n';
+}
+
+function formatWebVtt(timeline: TimelineEntry<TranscriptSegment>[], names?: SpeakerNames): string {
+  const entries: TimelineEntry<TranscriptCue>[] = [];
+  for (const { segment, pause } of timeline) {
+    if (pause) {
+      entries.push({ pause });
+    } else {
+      getCues([segment]).forEach(cue => entries.push({ segment: cue }));
+    }
+  }
+
+  const blocks = entries.map(({ segment: cue, pause }, index) => {
+    // 暫停以 NOTE 區塊標記，播放器會忽略
+    if (pause) return `NOTE Paused for ${formatPauseDuration(pause.duration)}`;
+
+    const next = entries.slice(index + 1).find(entry => entry.segment)?.segment;
+    return [
+      `${formatTimecode(cue.start, '.')} --> ${formatTimecode(getCueEnd(cue, next), '.')}`,
+      // WebVTT 的 voice span 標記說話者
+      cue.speaker !== undefined ? `<v ${getSpeakerName(cue.speaker, names)}>${cue.text}` : cue.text
+    ].join('\n');
+  });
+
+  return ['WEBVTT', ...blocks].join('\n\n') + '\n';
+}
+
+function formatMarkdown(timeline: TimelineEntry<TranscriptSegment>[], names?: SpeakerNames): string {
+  return timeline
+    .map(({ segment, pause }) => {
+      if (pause) {
+        return `**[${formatTimecode(pause.at)}]** *Paused for ${formatPauseDuration(pause.duration)}*`;
+      }
+      const timecode = `**[${formatTimecode(segment.startTime ?? 0)}]**`;
+      const speaker = segment.speaker !== undefined ? ` **${getSpeakerName(segment.speaker, names)}:**` : '';
+      const translation = segment.translation ? `\n> ${segment.translation.trim()}` : '';
+      return `${timecode}${speaker} ${segment.text.trim()}${formatTags(segment.tags)}${translation}`;
+    })
+    .join('\n\n') + '\n';
+}
+
+function formatJson(timeline: TimelineEntry<TranscriptSegment>[], names?: SpeakerNames): string {
+  // 不輸出音訊 Blob，只保留可序列化欄位；暫停以 type: "pause" 的項目插在時間軸上
+  const data = timeline.map(({ segment, pause }) => pause ? {
+    type: 'pause',
+    start: pause.at,
+    duration: pause.duration
+  } : {
+    id: segment.id,
+    timestamp: segment.timestamp.toISOString(),
+    start: segment.startTime,
+    end: segment.endTime,
+    speaker: segment.speaker !== undefined ? getSpeakerName(segment.speaker, names) : undefined,
+    text: segment.text,
+    translation: segment.translation,
+    tags: segment.tags,
+    cues: segment.cues
+  });
+
+  return JSON.stringify(data, null, 2);
+}
+
+function formatPlainText(
+  timeline: TimelineEntry<TranscriptSegment>[],
+  includeTimestamps?: boolean,
+  names?: SpeakerNames
+): string {
+  return timeline
+    .map(({ segment, pause }) => {
+      if (pause) {
+        const timestamp = includeTimestamps ? `[${formatTimecode(pause.at)}] ` : '';
+        return `${timestamp}[Paused for ${formatPauseDuration(pause.duration)}]`;
+      }
+      const timestamp = includeTimestamps ? `[${formatTimecode(segment.startTime ?? 0)}] ` : '';
+      const speaker = segment.speaker !== undefined ? `${getSpeakerName(segment.speaker, names)}: ` : '';
+      const translation = segment.translation ? `\n> ${segment.translation}` : '';
+      return `${timestamp}${speaker}${segment.text}${formatTags(segment.tags)}${translation}`;
+    })
+    .join('\n');
+}
+
+function getCueEnd(cue: TranscriptCue, next?: TranscriptCue): number {
+  // 避免零長度字幕，至少顯示一秒，但不延伸到下一句開始之後
+  const minimum = next && next.start > cue.start ? Math.min(cue.start + 1, next.start) : cue.start + 1;
+  return Math.max(cue.end, minimum);
+}
+
+function pad(value: number, length: number): string {
+  return value.toString().padStart(length, '0');
+}
@@ -0,0 +1,238 @@
+/**
+ * 相鄰片段文字接合
+ * 片段開頭與上一段結尾重疊（擷取重疊、或 prompt 讓模型重複上一句），
+ * 有逐字時間戳時以時間判斷重複，沒有時以模糊比對上一段結尾與下一段開頭
+ */
+
+export interface StitchWord {
+  word: string;
+  start: number;    // seconds, same time base for both segments
+  end: number;
+}
+
+export interface StitchInput {
+  text: string;
+  words?: StitchWord[];
+}
+
+export interface StitchResult {
+  text: string;               // 下一段去掉重複開頭後的文字
+  words?: StitchWord[];
+  removedWords: number;       // 從下一段開頭移除的詞數
+  previousText: string;       // 上一段去掉被切斷的最後一個詞後的文字
+  previousRemovedWords: number;
+}
+
+interface Token {
+  index: number;       // 在原始文字中的起始位置
+  normalized: string;
+}
+
+const MAX_OVERLAP_TOKENS = 12;
+const WORD_BOUNDARY_TOLERANCE = 0.05;   // seconds
+
+// 中日文字不以空白分詞，逐字比對；其餘以空白分隔
+const TOKEN_PATTERN = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff]|[^\s\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff]+/g;
+const PUNCTUATION_PATTERN = /[.,!?;:"'`“”‘’()[\]{}<>«»¿¡…。，、！？；：「」『』（）【】《》〈〉—–~-]/g;
+
+/**
+ * Remove the part of `next` that repeats the end of `previous`
+ * @param previous The segment before, already delivered
+ * @param next The segment that just arrived
+ */
+export function stitchSegments(previous: StitchInput, next: StitchInput): StitchResult {
+  const previousTokens = tokenize(previous.text);
+  const nextTokens = tokenize(next.text);
+
+  let removed = previous.words?.length && next.words?.length
+    ? countCoveredTokens(previous.words, next.words, nextTokens)
+    : findFuzzyOverlap(previousTokens, nextTokens);
+  let previousRemoved = 0;
+
+  // 對齊後上一段最後一個詞若被切斷（是下一段對應詞的前綴），改保留下一段的完整版本
+  const lastPrevious = previousTokens[previousTokens.length - 1];
+  if (removed > 0 && lastPrevious && isCutOff(lastPrevious.normalized, nextTokens[removed - 1].normalized)) {
+    previousRemoved = 1;
+    removed--;
+  }
+
+  return {
+    text: removed > 0 ? sliceFromToken(next.text, nextTokens, removed) : next.text,
+    words: next.words && removed > 0 ? dropCoveredWords(next.words, nextTokens, removed) : next.words,
+    removedWords: removed,
+    previousText: previousRemoved > 0 ? sliceToToken(previous.text, previousTokens, previousTokens.length - previousRemoved) : previous.text,
+    previousRemovedWords: previousRemoved
+  };
+}
+
+/**
+ * Separator to put between two stitched segment texts
+ */
+export function joinSeparator(previous: string, next: string): string {
+  if (!previous || !next) return '';
+  // 中日文之間不加空白
+  const cjk = /[\u3040-\u30ff\u3400-\u9fff\uff00-\uffef]/;
+  return cjk.test(previous.charAt(previous.length - 1)) && cjk.test(next.charAt(0)) ? '' : ' ';
+}
+
+/**
+ * Remove the first `count` words, keeping the rest of the text as written
+ */
+export function removeLeadingWords(text: string, count: number): string {
+  if (count <= 0) return text;
+  return sliceFromToken(text, tokenize(text), count);
+}
+
+/**
+ * Remove the last `count` words, keeping the rest of the text as written
+ */
+export function removeTrailingWords(text: string, count: number): string {
+  if (count <= 0) return text;
+  const tokens = tokenize(text);
+  return sliceToToken(text, tokens, tokens.length - count);
+}
+
+/**
+ * Number of words as counted by the stitcher
+ */
+export function countWords(text: string): number {
+  return tokenize(text).length;
+}
+
+/**
+ * Normalized words (lowercase, punctuation removed); Chinese and Japanese are split per character
+ */
+export function splitWords(text: string): string[] {
+  return tokenize(text).map(token => token.normalized);
+}
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = new RegExp(TOKEN_PATTERN.source, 'g');
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    const normalized = normalize(match[0]);
+    // 純標點不算一個詞
+    if (normalized) {
+      tokens.push({ index: match.index, normalized });
+    }
+  }
+  return tokens;
+}
+
+function normalize(token: string): string {
+  return token.toLowerCase().replace(PUNCTUATION_PATTERN, '');
+}
+
+/**
+ * Leading tokens of `next` whose words were spoken before the last word of `previous` ended
+ */
+function countCoveredTokens(previousWords: StitchWord[], nextWords: StitchWord[], nextTokens: Token[]): number {
+  const boundary = previousWords[previousWords.length - 1].end - WORD_BOUNDARY_TOLERANCE;
+
+  let covered = '';
+  for (const word of nextWords) {
+    if ((word.start + word.end) / 2 >= boundary) break;
+    covered += normalize(word.word.trim());
+  }
+  if (!covered) return 0;
+
+  // 逐字時間戳的「詞」與文字的分詞不一定一致，以正規化後的字元數對齊
+  let length = 0;
+  let count = 0;
+  while (count < nextTokens.length && length < covered.length) {
+    length += nextTokens[count].normalized.length;
+    count++;
+  }
+  return count;
+}
+
+function dropCoveredWords(words: StitchWord[], tokens: Token[], removedTokens: number): StitchWord[] {
+  const removedLength = tokens.slice(0, removedTokens).reduce((sum, token) => sum + token.normalized.length, 0);
+
+  let length = 0;
+  let index = 0;
+  while (index < words.length && length < removedLength) {
+    length += normalize(words[index].word.trim()).length;
+    index++;
+  }
+  return words.slice(index);
+}
+
+/**
+ * Longest run of tokens at the end of `previous` that matches the start of `next`
+ */
+function findFuzzyOverlap(previous: Token[], next: Token[]): number {
+  const maxLength = Math.min(MAX_OVERLAP_TOKENS, previous.length, next.length);
+
+  for (let length = maxLength; length >= 1; length--) {
+    const offset = previous.length - length;
+    let matches = 0;
+    for (let i = 0; i < length; i++) {
+      if (tokensMatch(previous[offset + i].normalized, next[i].normalized)) {
+        matches++;
+      }
+    }
+
+    // 單一詞只接受完全相同且不是單一字元（避免「的」「a」這類常見字誤判）
+    if (length === 1) {
+      if (previous[offset].normalized === next[0].normalized && next[0].normalized.length > 1) {
+        return 1;
+      }
+      continue;
+    }
+
+    // 每 4 個詞容許 1 個辨識差異
+    if (matches >= length - Math.floor(length / 4) && tokensMatch(previous[offset].normalized, next[0].normalized)) {
+      return length;
+    }
+  }
+
+  return 0;
+}
+
+function tokensMatch(a: string, b: string): boolean {
+  if (a === b) return true;
+
+  const shorter = a.length < b.length ? a : b;
+  const longer = a.length < b.length ? b : a;
+  // 切在詞中間：一邊是另一邊的前綴或後綴
+  if (shorter.length >= 3 && (longer.startsWith(shorter) || longer.endsWith(shorter))) {
+    return true;
+  }
+
+  return longer.length >= 4 && levenshtein(a, b) <= Math.floor(longer.length / 4);
+}
+
+function isCutOff(previous: string, next: string): boolean {
+  return previous.length >= 3 && previous.length < next.length && next.startsWith(previous);
+}
+
+function levenshtein(a: string, b: string): number {
+  let row = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const nextRow = [i];
+    for (let j = 1; j <= b.length; j++) {
+      nextRow[j] = Math.min(
+        row[j] + 1,
+        nextRow[j - 1] + 1,
+        row[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    row = nextRow;
+  }
+
+  return row[b.length];
+}
+
+function sliceFromToken(text: string, tokens: Token[], index: number): string {
+  if (index >= tokens.length) return '';
+  return text.slice(tokens[index].index).replace(/^\s+/, '');
+}
+
+function sliceToToken(text: string, tokens: Token[], index: number): string {
+  if (index <= 0) return '';
+  if (index >= tokens.length) return text;
+  return text.slice(0, tokens[index].index).replace(/\s+$/, '');
+}
@@ -0,0 +1,58 @@
+/**
+ * Undo/redo stack
+ * 新的編輯會清掉可重做的項目；超過上限時丟棄最舊的
+ */
+export class UndoHistory<T> {
+  private done: T[] = [];
+  private undone: T[] = [];
+  private limit: number;
+
+  constructor(limit = 100) {
+    this.limit = limit;
+  }
+
+  push(entry: T): void {
+    this.done.push(entry);
+    if (this.done.length > this.limit) {
+      this.done.shift();
+    }
+    this.undone = [];
+  }
+
+  /**
+   * Take the most recent edit to revert
+   * @returns undefined when there is nothing to undo
+   */
+  undo(): T | undefined {
+    const entry = this.done.pop();
+    if (entry !== undefined) {
+      this.undone.push(entry);
+    }
+    return entry;
+  }
+
+  /**
+   * Take the most recently undone edit to apply again
+   * @returns undefined when there is nothing to redo
+   */
+  redo(): T | undefined {
+    const entry = this.undone.pop();
+    if (entry !== undefined) {
+      this.done.push(entry);
+    }
+    return entry;
+  }
+
+  clear(): void {
+    this.done = [];
+    this.undone = [];
+  }
+
+  get canUndo(): boolean {
+    return this.done.length > 0;
+  }
+
+  get canRedo(): boolean {
+    return this.undone.length > 0;
+  }
+}
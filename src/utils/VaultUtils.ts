@@ -0,0 +1,34 @@
+import { normalizePath, type App } from 'obsidian';
+
+/**
+ * Vault file helpers shared by sessions and exporters
+ */
+
+/**
+ * Create a folder (and its parents) if it doesn't exist yet
+ */
+export async function ensureFolder(app: App, folder: string): Promise<void> {
+  if (folder === '/' || app.vault.getAbstractFileByPath(folder)) return;
+
+  try {
+    await app.vault.createFolder(folder);
+  } catch {
+    // Folder may have been created concurrently
+  }
+}
+
+/**
+ * Find a free path like "folder/name.ext", "folder/name 1.ext", ...
+ */
+export function getAvailablePath(app: App, folder: string, baseName: string, extension: string): string {
+  const prefix = folder === '/' ? '' : `${folder}/`;
+  let path = normalizePath(`${prefix}${baseName}.${extension}`);
+  let counter = 1;
+
+  while (app.vault.getAbstractFileByPath(path)) {
+    path = normalizePath(`${prefix}${baseName} ${counter}.${extension}`);
+    counter++;
+  }
+
+  return path;
+}
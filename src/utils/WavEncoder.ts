@@ -0,0 +1,169 @@
+/**
+ * PCM to WAV encoding
+ */
+
+const HEADER_SIZE = 44;
+const BYTES_PER_SAMPLE = 2;
+
+export class WavEncoder {
+  /**
+   * Encode mono float samples as a 16-bit PCM WAV file
+   * @param samples Float samples in the range -1.0 to 1.0
+   * @param sampleRate Sample rate in Hz
+   * @returns WAV blob (audio/wav)
+   */
+  static encode(samples: Float32Array, sampleRate: number): Blob {
+    const dataSize = samples.length * BYTES_PER_SAMPLE;
+    const buffer = new ArrayBuffer(HEADER_SIZE + dataSize);
+    const view = new DataView(buffer);
+    WavEncoder.writeHeader(view, sampleRate, dataSize);
+
+    let offset = HEADER_SIZE;
+    for (let i = 0; i < samples.length; i++) {
+      const sample = Math.max(-1, Math.min(1, samples[i]));
+      view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+      offset += BYTES_PER_SAMPLE;
+    }
+
+    return new Blob([buffer], { type: 'audio/wav' });
+  }
+
+  /**
+   * Size in bytes of a WAV file produced by encode()
+   */
+  static getEncodedSize(sampleCount: number): number {
+    return HEADER_SIZE + sampleCount * BYTES_PER_SAMPLE;
+  }
+
+  /**
+   * Cut a WAV file produced by encode() in two
+   * @param seconds Where to cut, from the start of the file
+   * @returns The audio before and after the cut
+   */
+  static async split(blob: Blob, seconds: number): Promise<[Blob, Blob]> {
+    const { sampleRate, data } = await WavEncoder.read(blob);
+    const sampleCount = data.length / BYTES_PER_SAMPLE;
+    const offset = Math.min(sampleCount, Math.max(0, Math.round(seconds * sampleRate))) * BYTES_PER_SAMPLE;
+
+    return [
+      WavEncoder.wrap(data.subarray(0, offset), sampleRate),
+      WavEncoder.wrap(data.subarray(offset), sampleRate)
+    ];
+  }
+
+  /**
+   * Join two WAV files produced by encode() with the same sample rate
+   * @param skipSeconds Audio at the start of the second file to leave out (overlap with the first)
+   */
+  static async concat(first: Blob, second: Blob, skipSeconds = 0): Promise<Blob> {
+    const [a, b] = await Promise.all([WavEncoder.read(first), WavEncoder.read(second)]);
+    if (a.sampleRate !== b.sampleRate) {
+      throw new Error('Cannot join WAV files with different sample rates');
+    }
+
+    const sampleCount = b.data.length / BYTES_PER_SAMPLE;
+    const skip = Math.min(sampleCount, Math.max(0, Math.round(skipSeconds * b.sampleRate))) * BYTES_PER_SAMPLE;
+    const data = new Uint8Array(a.data.length + b.data.length - skip);
+    data.set(a.data);
+    data.set(b.data.subarray(skip), a.data.length);
+    return WavEncoder.wrap(data, a.sampleRate);
+  }
+
+  /**
+   * Average all channels of an AudioBuffer into one
+   * @param inPlace Mix into the buffer's first channel instead of allocating a new array
+   */
+  static downmixToMono(audioBuffer: AudioBuffer, inPlace = false): Float32Array {
+    if (audioBuffer.numberOfChannels === 1) {
+      return audioBuffer.getChannelData(0);
+    }
+
+    if (inPlace) {
+      const mono = audioBuffer.getChannelData(0);
+      for (let channel = 1; channel < audioBuffer.numberOfChannels; channel++) {
+        const data = audioBuffer.getChannelData(channel);
+        for (let i = 0; i < mono.length; i++) {
+          mono[i] += data[i];
+        }
+      }
+      for (let i = 0; i < mono.length; i++) {
+        mono[i] /= audioBuffer.numberOfChannels;
+      }
+      return mono;
+    }
+
+    const mono = new Float32Array(audioBuffer.length);
+    for (let channel = 0; channel < audioBuffer.numberOfChannels; channel++) {
+      const data = audioBuffer.getChannelData(channel);
+      for (let i = 0; i < data.length; i++) {
+        mono[i] += data[i] / audioBuffer.numberOfChannels;
+      }
+    }
+    return mono;
+  }
+
+  // 只處理 encode() 產生的格式：44 位元組標頭、16-bit 單聲道 PCM
+  private static async read(blob: Blob): Promise<{ sampleRate: number; data: Uint8Array }> {
+    const buffer = await blob.arrayBuffer();
+    const view = new DataView(buffer);
+    if (
+      buffer.byteLength < HEADER_SIZE ||
+      WavEncoder.readString(view, 0) !== 'RIFF' ||
+      WavEncoder.readString(view, 8) !== 'WAVE' ||
+      WavEncoder.readString(view, 36) !== 'data' ||
+      view.getUint16(20, true) !== 1 ||
+      view.getUint16(22, true) !== 1 ||
+      view.getUint16(34, true) !== 16
+    ) {
+      throw new Error('Unsupported WAV format');
+    }
+
+    const dataSize = Math.min(view.getUint32(40, true), buffer.byteLength - HEADER_SIZE);
+    return {
+      sampleRate: view.getUint32(24, true),
+      data: new Uint8Array(buffer, HEADER_SIZE, dataSize - (dataSize % BYTES_PER_SAMPLE))
+    };
+  }
+
+  private static wrap(data: Uint8Array, sampleRate: number): Blob {
+    const buffer = new ArrayBuffer(HEADER_SIZE + data.length);
+    WavEncoder.writeHeader(new DataView(buffer), sampleRate, data.length);
+    new Uint8Array(buffer, HEADER_SIZE).set(data);
+    return new Blob([buffer], { type: 'audio/wav' });
+  }
+
+  private static writeHeader(view: DataView, sampleRate: number, dataSize: number): void {
+    // RIFF header
+    WavEncoder.writeString(view, 0, 'RIFF');
+    view.setUint32(4, 36 + dataSize, true);
+    WavEncoder.writeString(view, 8, 'WAVE');
+
+    // fmt chunk
+    WavEncoder.writeString(view, 12, 'fmt ');
+    view.setUint32(16, 16, true);                             // chunk size
+    view.setUint16(20, 1, true);                              // PCM
+    view.setUint16(22, 1, true);                              // mono
+    view.setUint32(24, sampleRate, true);
+    view.setUint32(28, sampleRate * BYTES_PER_SAMPLE, true);  // byte rate
+    view.setUint16(32, BYTES_PER_SAMPLE, true);               // block align
+    view.setUint16(34, 16, true);                             // bits per sample
+
+    // data chunk
+    WavEncoder.writeString(view, 36, 'data');
+    view.setUint32(40, dataSize, true);
+  }
+
+  private static readString(view: DataView, offset: number): string {
+    let value = '';
+    for (let i = 0; i < 4; i++) {
+      value += String.fromCharCode(view.getUint8(offset + i));
+    }
+    return value;
+  }
+
+  private static writeString(view: DataView, offset: number, value: string): void {
+    for (let i = 0; i < value.length; i++) {
+      view.setUint8(offset + i, value.charCodeAt(i));
+    }
+  }
+}
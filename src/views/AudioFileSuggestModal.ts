@@ -0,0 +1,27 @@
+import { FuzzySuggestModal, type App, type TFile } from 'obsidian';
+import { isTranscribableFile } from '../services/FileTranscriber';
+
+/**
+ * Pick an audio or video file from the vault
+ */
+export class AudioFileSuggestModal extends FuzzySuggestModal<TFile> {
+	private onChoose: (file: TFile) => void;
+
+	constructor(app: App, onChoose: (file: TFile) => void) {
+		super(app);
+		this.onChoose = onChoose;
+		this.setPlaceholder('Choose an audio or video file to transcribe');
+	}
+
+	getItems(): TFile[] {
+		return this.app.vault.getFiles().filter(isTranscribableFile);
+	}
+
+	getItemText(file: TFile): string {
+		return file.path;
+	}
+
+	onChooseItem(file: TFile): void {
+		this.onChoose(file);
+	}
+}
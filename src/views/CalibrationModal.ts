@@ -0,0 +1,151 @@
+import { Modal, Setting, type App } from 'obsidian';
+import type { VoiceTranscriberSettings } from '../settings/PluginSettings';
+import { deriveThresholds, VadCalibrator, type CalibrationSample, type VadCalibration } from '../services/VadCalibrator';
+import type { AnalysisInfo } from '../services/VoiceActivityDetector';
+
+const STEP_SECONDS = 5;
+
+/**
+ * Record room noise, then speech, and derive voice detection thresholds for the selected microphone
+ */
+export class CalibrationModal extends Modal {
+	private settings: VoiceTranscriberSettings;
+	private deviceLabel: string;
+	private onSave: (calibration: VadCalibration) => void;
+	private calibrator: VadCalibrator | null = null;
+	private noise: CalibrationSample[] = [];
+
+	constructor(app: App, settings: VoiceTranscriberSettings, deviceLabel: string, onSave: (calibration: VadCalibration) => void) {
+		super(app);
+		this.settings = settings;
+		this.deviceLabel = deviceLabel;
+		this.onSave = onSave;
+	}
+
+	onOpen(): void {
+		this.titleEl.setText('Calibrate voice detection');
+		this.showStep(
+			'Step 1 of 2: room noise',
+			`Stay quiet for ${STEP_SECONDS} seconds so the background noise of "${this.deviceLabel}" can be measured.`,
+			'Record room noise',
+			async (onProgress) => {
+				this.noise = await this.record(onProgress);
+				this.showSpeechStep();
+			}
+		);
+	}
+
+	onClose(): void {
+		this.calibrator?.close();
+		this.calibrator = null;
+		this.contentEl.empty();
+	}
+
+	private showSpeechStep(): void {
+		this.showStep(
+			'Step 2 of 2: speech',
+			`Talk normally for ${STEP_SECONDS} seconds, at the distance you usually sit from the microphone.`,
+			'Record speech',
+			async (onProgress) => {
+				const speech = await this.record(onProgress);
+				this.showResult(this.calibrator?.analysisInfo ?? null, {
+					label: this.deviceLabel,
+					calibratedAt: Date.now(),
+					...deriveThresholds(this.noise, speech)
+				});
+			}
+		);
+	}
+
+	private showStep(
+		name: string,
+		description: string,
+		buttonText: string,
+		run: (onProgress: (progress: number, level: number) => void) => Promise<void>
+	): void {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		new Setting(contentEl).setName(name).setDesc(description).setHeading();
+
+		const progressEl = contentEl.createEl('progress', { cls: 'voice-transcriber-calibration-progress', attr: { max: '100', value: '0' } });
+		const statusEl = contentEl.createDiv({ cls: 'setting-item-description' });
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText(buttonText)
+				.setCta()
+				.onClick(async () => {
+					button.setDisabled(true);
+					try {
+						await run((progress, level) => {
+							progressEl.value = Math.round(progress * 100);
+							statusEl.setText(`Level: ${Math.round(level)}`);
+						});
+					} catch (error) {
+						this.showError((error as Error).message);
+					}
+				}));
+	}
+
+	private showResult(analysis: AnalysisInfo | null, calibration: VadCalibration): void {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		// 讓使用者看得到偵測實際使用的採樣率與頻率解析度
+		const description = analysis
+			? `Analysed at ${analysis.sampleRate} Hz with a ${analysis.fftSize}-point FFT (${analysis.binWidth.toFixed(1)} Hz per bin)`
+			: '';
+		new Setting(contentEl).setName('Result').setDesc(description).setHeading();
+		new Setting(contentEl)
+			.setName('Minimum audio level')
+			.setDesc('Quieter sounds never count as speech')
+			.addText(text => text.setValue(String(calibration.minAudioLevel)).setDisabled(true));
+		new Setting(contentEl)
+			.setName('Voice confidence')
+			.setDesc('How sure the detector must be that a sound is a human voice')
+			.addText(text => text.setValue(String(calibration.confidenceThreshold)).setDisabled(true));
+		// 頻段與特徵閾值不由校準推算，列出本次使用的值
+		const { settings } = this;
+		new Setting(contentEl)
+			.setName('Voice features')
+			.setDesc(`Pitch ${settings.voiceFundamentalBand.join('-')} Hz, formants ${settings.voiceFormantBand.join('-')} Hz, formant ratio ${settings.voiceFormantRatio}, zero-crossing rate ${settings.voiceZcrRange.join('-')}. Change them in the voice feature settings`);
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Start over')
+				.onClick(() => this.onOpen()))
+			.addButton(button => button
+				.setButtonText('Save for this microphone')
+				.setCta()
+				.onClick(() => {
+					this.onSave(calibration);
+					this.close();
+				}));
+	}
+
+	private showError(message: string): void {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		new Setting(contentEl).setName('Calibration failed').setDesc(message).setHeading();
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Try again')
+				.setCta()
+				.onClick(() => this.onOpen()));
+	}
+
+	private async record(onProgress: (progress: number, level: number) => void): Promise<CalibrationSample[]> {
+		if (!this.calibrator) {
+			this.calibrator = new VadCalibrator(this.settings);
+			try {
+				await this.calibrator.open();
+			} catch (error) {
+				this.calibrator = null;
+				throw new Error(`Could not open the microphone: ${(error as Error).message}`);
+			}
+		}
+		return this.calibrator.record(STEP_SECONDS, onProgress);
+	}
+}
@@ -0,0 +1,155 @@
+import { Modal, Setting, type App } from 'obsidian';
+import type { VoiceTranscriberSettings } from '../settings/PluginSettings';
+import { AudioSourceManager, RAW_MICROPHONE_CONSTRAINTS } from '../services/AudioSourceManager';
+import { PcmCapture, type PcmSegment } from '../services/PcmCapture';
+import { suppressNoise } from '../utils/NoiseSuppressor';
+import { WavEncoder } from '../utils/WavEncoder';
+
+const PREVIEW_SECONDS = 5;
+
+/**
+ * Record a short sample and play it back with and without noise suppression
+ */
+export class NoiseSuppressionPreviewModal extends Modal {
+	private settings: VoiceTranscriberSettings;
+	private player: HTMLAudioElement | null = null;
+	private urls: string[] = [];
+
+	constructor(app: App, settings: VoiceTranscriberSettings) {
+		super(app);
+		this.settings = settings;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.titleEl.setText('Preview noise suppression');
+
+		new Setting(contentEl)
+			.setName('Record a sample')
+			.setDesc(`Talk for ${PREVIEW_SECONDS} seconds with your usual background noise, then compare the original with the processed audio.`)
+			.setHeading();
+
+		const progressEl = contentEl.createEl('progress', { cls: 'voice-transcriber-calibration-progress', attr: { max: '100', value: '0' } });
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Record')
+				.setCta()
+				.onClick(async () => {
+					button.setDisabled(true);
+					try {
+						const segment = await this.record(progress => progressEl.value = Math.round(progress * 100));
+						this.showComparison(segment);
+					} catch (error) {
+						this.showError((error as Error).message);
+					}
+				}));
+	}
+
+	onClose(): void {
+		this.stopPlayback();
+		this.urls.forEach(url => URL.revokeObjectURL(url));
+		this.urls = [];
+		this.contentEl.empty();
+	}
+
+	private showComparison(segment: PcmSegment): void {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		// 與錄音時 worklet 內的處理相同，只是離線一次算完
+		const originalUrl = this.createUrl(segment.samples, segment.sampleRate);
+		const processedUrl = this.createUrl(suppressNoise(segment.samples), segment.sampleRate);
+
+		new Setting(contentEl)
+			.setName('Compare')
+			.setDesc('The processed version is what gets sent for transcription when noise suppression is on')
+			.setHeading();
+
+		new Setting(contentEl)
+			.setName('Original')
+			.addButton(button => button
+				.setButtonText('Play')
+				.onClick(() => this.play(originalUrl)));
+
+		new Setting(contentEl)
+			.setName('With noise suppression')
+			.addButton(button => button
+				.setButtonText('Play')
+				.onClick(() => this.play(processedUrl)));
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Record again')
+				.onClick(() => {
+					this.stopPlayback();
+					this.onOpen();
+				}));
+	}
+
+	private showError(message: string): void {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		new Setting(contentEl).setName('Recording failed').setDesc(message).setHeading();
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Try again')
+				.setCta()
+				.onClick(() => this.onOpen()));
+	}
+
+	private async record(onProgress: (progress: number) => void): Promise<PcmSegment> {
+		const sources = new AudioSourceManager({
+			getSettings: () => this.settings,
+			microphoneConstraints: RAW_MICROPHONE_CONSTRAINTS
+		});
+		// 錄原始音訊，兩個版本才能比較
+		const capture = new PcmCapture({ noiseSuppression: false });
+
+		try {
+			await capture.open(await sources.open());
+			capture.begin();
+
+			const startedAt = Date.now();
+			await new Promise<void>(resolve => {
+				const timer = window.setInterval(() => {
+					const progress = Math.min(1, capture.recordedSeconds / PREVIEW_SECONDS);
+					onProgress(progress);
+					// 裝置沒有送出樣本時也要結束
+					if (progress >= 1 || Date.now() - startedAt > (PREVIEW_SECONDS + 2) * 1000) {
+						window.clearInterval(timer);
+						resolve();
+					}
+				}, 100);
+			});
+
+			const segment = await capture.finish();
+			if (!segment) {
+				throw new Error('No audio was recorded. Check that the microphone is connected.');
+			}
+			return segment;
+		} finally {
+			capture.close();
+			sources.close();
+		}
+	}
+
+	private createUrl(samples: Float32Array, sampleRate: number): string {
+		const url = URL.createObjectURL(WavEncoder.encode(samples, sampleRate));
+		this.urls.push(url);
+		return url;
+	}
+
+	private play(url: string): void {
+		this.stopPlayback();
+		this.player = new Audio(url);
+		void this.player.play();
+	}
+
+	private stopPlayback(): void {
+		this.player?.pause();
+		this.player = null;
+	}
+}
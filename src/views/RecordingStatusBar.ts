@@ -0,0 +1,66 @@
+import type { RecordingController, RecordingState } from '../services/RecordingController';
+import type { PendingQueue } from '../services/PendingQueue';
+
+/**
+ * Status bar item for the sidebar recording: state, elapsed speaking time and offline queue length
+ * Hidden while idle with an empty queue
+ */
+export class RecordingStatusBar {
+	private el: HTMLElement;
+	private state: RecordingState = 'idle';
+	private seconds = 0;
+	private pending = 0;
+	private unsubscribers: Array<() => void>;
+
+	constructor(el: HTMLElement, recorder: RecordingController, pendingQueue: PendingQueue, onClick: () => void) {
+		this.el = el;
+		this.el.addClass('mod-clickable');
+		this.el.addEventListener('click', onClick);
+
+		this.unsubscribers = [
+			recorder.on('state', (state) => {
+				this.state = state;
+				if (state === 'initializing') {
+					this.seconds = 0;
+				}
+				this.render();
+			}),
+			recorder.on('time', (seconds) => {
+				this.seconds = seconds;
+				this.render();
+			}),
+			pendingQueue.subscribe((items) => {
+				this.pending = items.length;
+				this.render();
+			})
+		];
+	}
+
+	destroy(): void {
+		this.unsubscribers.forEach(unsubscribe => unsubscribe());
+	}
+
+	private render(): void {
+		const parts: string[] = [];
+		if (this.state === 'initializing') {
+			parts.push('🎙 Starting…');
+		} else if (this.state === 'recording') {
+			parts.push(`🔴 ${formatElapsed(this.seconds)}`);
+		} else if (this.state === 'paused') {
+			parts.push(`⏸ ${formatElapsed(this.seconds)}`);
+		}
+		if (this.pending > 0) {
+			parts.push(`${this.pending} pending`);
+		}
+
+		this.el.setText(parts.join(' · '));
+		this.el.setAttr('aria-label', this.state === 'idle' ? 'Voice transcriber' : 'Recording (speaking time)');
+		this.el.toggle(parts.length > 0);
+	}
+}
+
+function formatElapsed(seconds: number): string {
+	const mins = Math.floor(seconds / 60);
+	const secs = seconds % 60;
+	return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+}
@@ -0,0 +1,61 @@
+import { Modal, Setting, type App } from 'obsidian';
+import { LANGUAGE_OPTIONS } from '../settings/PluginSettings';
+import type { RetranscribeOptions } from '../services/SegmentManager';
+
+/**
+ * Choose the model, language and prompt for transcribing one segment again
+ */
+export class RetranscribeModal extends Modal {
+	private options: RetranscribeOptions;
+	private defaultModel: string;
+	private onSubmit: (options: RetranscribeOptions) => void;
+
+	constructor(
+		app: App,
+		defaults: { model: string; language: string },
+		onSubmit: (options: RetranscribeOptions) => void
+	) {
+		super(app);
+		this.defaultModel = defaults.model;
+		this.options = { language: defaults.language };
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		this.titleEl.setText('Re-transcribe segment');
+
+		new Setting(contentEl)
+			.setName('Model')
+			.setDesc('Leave empty to use the model from the settings')
+			.addText(text => text
+				.setPlaceholder(this.defaultModel)
+				.onChange(value => this.options.model = value.trim() || undefined));
+
+		new Setting(contentEl)
+			.setName('Language')
+			.addDropdown(dropdown => dropdown
+				.addOptions(LANGUAGE_OPTIONS)
+				.setValue(this.options.language ?? 'auto')
+				.onChange(value => this.options.language = value));
+
+		new Setting(contentEl)
+			.setName('Prompt')
+			.setDesc('Names, terms or the sentence before, to guide the spelling; leave empty to use the vocabulary')
+			.addTextArea(text => text
+				.onChange(value => this.options.prompt = value.trim() || undefined));
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Re-transcribe')
+				.setCta()
+				.onClick(() => {
+					this.onSubmit({ ...this.options });
+					this.close();
+				}));
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+}
@@ -1,12 +1,14 @@
 import { ItemView, WorkspaceLeaf } from 'obsidian';
 import VoiceTranscriberApp from '../components/VoiceTranscriberApp.svelte';
 import type OBWhisperingPlugin from '../../main';
+import type { TranscriptContent } from '../services/NoteInserter';
 
 export const VIEW_TYPE_VOICE_TRANSCRIBER = 'voice-transcriber-view';
 
 export class SidebarView extends ItemView {
 	private component: VoiceTranscriberApp | null = null;
 	private plugin: OBWhisperingPlugin;
+	private transcript: TranscriptContent = { text: '', duration: 0 };
 
 	constructor(leaf: WorkspaceLeaf, plugin: OBWhisperingPlugin) {
 		super(leaf);
@@ -41,7 +43,10 @@ export class SidebarView extends ItemView {
 				target: container,
 				props: {
 					plugin: this.plugin,
-					settings: this.plugin.settings
+					settings: this.plugin.settings,
+					ontranscriptchange: (transcript: TranscriptContent) => {
+						this.transcript = transcript;
+					}
 				}
 			});
 		} catch (error) {
@@ -66,6 +71,13 @@ export class SidebarView extends ItemView {
 		return Promise.resolve();
 	}
 
+	/**
+	 * Current (edited) transcript shown in the sidebar
+	 */
+	getTranscript(): TranscriptContent {
+		return this.transcript;
+	}
+
 	async onClose() {
 		// Destroy the Svelte component
 		if (this.component) {
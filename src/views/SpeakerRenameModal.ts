@@ -0,0 +1,52 @@
+import { Modal, Setting, type App } from 'obsidian';
+
+/**
+ * Ask for a new display name for a speaker
+ */
+export class SpeakerRenameModal extends Modal {
+	private name: string;
+	private onSubmit: (name: string) => void;
+
+	constructor(app: App, currentName: string, onSubmit: (name: string) => void) {
+		super(app);
+		this.name = currentName;
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		this.titleEl.setText('Rename speaker');
+
+		new Setting(contentEl)
+			.setName('Name')
+			.setDesc('Used for every segment of this speaker in the transcript, session note and exports')
+			.addText(text => {
+				text.setValue(this.name).onChange(value => this.name = value);
+				text.inputEl.addEventListener('keydown', (event: KeyboardEvent) => {
+					if (event.key === 'Enter') {
+						event.preventDefault();
+						this.submit();
+					}
+				});
+				window.setTimeout(() => text.inputEl.select(), 0);
+			});
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Rename')
+				.setCta()
+				.onClick(() => this.submit()));
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private submit(): void {
+		const name = this.name.trim();
+		if (name) {
+			this.onSubmit(name);
+		}
+		this.close();
+	}
+}
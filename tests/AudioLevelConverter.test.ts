@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { AudioLevelConverter } from '../src/utils/AudioLevelConverter';
+
+describe('AudioLevelConverter', () => {
+  it('converts between decibels and linear values', () => {
+    expect(AudioLevelConverter.dbToLinear(0)).toBe(1);
+    expect(AudioLevelConverter.dbToLinear(-20)).toBeCloseTo(0.1, 10);
+    expect(AudioLevelConverter.linearToDb(0.1)).toBeCloseTo(-20, 10);
+    expect(AudioLevelConverter.linearToDb(AudioLevelConverter.dbToLinear(-37))).toBeCloseTo(-37, 10);
+  });
+
+  it('clamps out-of-range values', () => {
+    expect(AudioLevelConverter.dbToLinear(12)).toBe(1);
+    expect(AudioLevelConverter.dbToLinear(-200)).toBeCloseTo(1e-5, 10);
+    expect(AudioLevelConverter.linearToDb(0)).toBeCloseTo(-120, 10);
+    expect(AudioLevelConverter.linearToDb(2)).toBe(0);
+  });
+
+  it('computes RMS and level from analyser bytes', () => {
+    expect(AudioLevelConverter.calculateRMS(new Uint8Array(16).fill(255))).toBe(1);
+    expect(AudioLevelConverter.calculateRMS(new Uint8Array(16))).toBe(0);
+    expect(AudioLevelConverter.getCurrentLevelDb(new Uint8Array(16).fill(255))).toBe(0);
+  });
+
+  it('formats decibels with one decimal', () => {
+    expect(AudioLevelConverter.formatDb(-40.04)).toBe('-40.0dB');
+  });
+});
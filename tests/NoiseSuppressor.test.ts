@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { StftNoiseSuppressor, suppressNoise } from '../src/utils/NoiseSuppressor';
+import { mix, pinkNoise, rms, sine, syllables, vowel } from './helpers/signals';
+
+const SAMPLE_RATE = 16000;
+
+describe('StftNoiseSuppressor', () => {
+  it('delays the signal by its latency', () => {
+    const suppressor = new StftNoiseSuppressor({ overSubtraction: 0 });
+    const input = sine(440, SAMPLE_RATE, 0.2);
+    const output = suppressor.process(input);
+
+    expect(suppressor.latency).toBe(512);
+    for (let i = 0; i < suppressor.latency; i++) {
+      expect(output[i]).toBeCloseTo(0, 6);
+    }
+    expect(output[1000]).toBeCloseTo(input[1000 - suppressor.latency], 5);
+  });
+
+  it('reconstructs the input exactly when nothing is subtracted', () => {
+    const input = vowel(140, [730, 1090, 2440], SAMPLE_RATE, 0.5);
+    const output = suppressNoise(input, { overSubtraction: 0 });
+
+    expect(output).toHaveLength(input.length);
+    let error = 0;
+    for (let i = 0; i < input.length; i++) {
+      error = Math.max(error, Math.abs(output[i] - input[i]));
+    }
+    expect(error).toBeLessThan(1e-5);
+  });
+
+  it('lowers steady background noise', () => {
+    const noise = pinkNoise(SAMPLE_RATE, 2, 0.1);
+    const output = suppressNoise(noise);
+
+    // 噪音估計收斂後才比較
+    const reduction = 20 * Math.log10(rms(output, SAMPLE_RATE) / rms(noise, SAMPLE_RATE));
+    expect(reduction).toBeLessThan(-5);
+  });
+
+  it('brings noisy speech closer to the clean speech', () => {
+    const clean = syllables(SAMPLE_RATE, 8);
+    const noisy = mix(clean, pinkNoise(SAMPLE_RATE, clean.length / SAMPLE_RATE, 0.1));
+    const output = suppressNoise(noisy);
+
+    const length = clean.length - SAMPLE_RATE;
+    const errorBefore = new Float32Array(length);
+    const errorAfter = new Float32Array(length);
+    for (let i = 0; i < length; i++) {
+      errorBefore[i] = noisy[SAMPLE_RATE + i] - clean[SAMPLE_RATE + i];
+      errorAfter[i] = output[SAMPLE_RATE + i] - clean[SAMPLE_RATE + i];
+    }
+    expect(rms(errorAfter)).toBeLessThan(rms(errorBefore));
+  });
+
+  it('leaves clean speech nearly untouched', () => {
+    const clean = syllables(SAMPLE_RATE, 8);
+    const output = suppressNoise(clean);
+    expect(rms(output, SAMPLE_RATE) / rms(clean, SAMPLE_RATE)).toBeGreaterThan(0.9);
+  });
+
+  it('runs from its own source text, as the capture worklet loads it', () => {
+    const Suppressor = new Function(`return (${StftNoiseSuppressor.toString()});`)() as typeof StftNoiseSuppressor;
+    const input = sine(440, SAMPLE_RATE, 0.2);
+    const expected = new StftNoiseSuppressor().process(input);
+    expect(Array.from(new Suppressor().process(input))).toEqual(Array.from(expected));
+  });
+});
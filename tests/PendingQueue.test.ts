@@ -0,0 +1,88 @@
+import { TFile, type App } from 'obsidian';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { PendingQueue } from '../src/services/PendingQueue';
+import { DEFAULT_SETTINGS, type VoiceTranscriberSettings } from '../src/settings/PluginSettings';
+import { WavEncoder } from '../src/utils/WavEncoder';
+import { fetchHttpClient } from './helpers/fetchHttpClient';
+import { sine } from './helpers/signals';
+import { StubTranscriptionServer } from './helpers/StubTranscriptionServer';
+
+const MARKER = '[🎙 pending… #abc123]';
+
+/**
+ * In-memory vault: plugin data files through the adapter, notes through process()
+ */
+function createApp(notes: Map<string, string>): App {
+  const files = new Map<string, string | ArrayBuffer>();
+  const adapter = {
+    exists: async (path: string) => files.has(path) || Array.from(files.keys()).some(file => file.startsWith(`${path}/`)),
+    mkdir: async () => {},
+    write: async (path: string, data: string) => { files.set(path, data); },
+    writeBinary: async (path: string, data: ArrayBuffer) => { files.set(path, data); },
+    read: async (path: string) => files.get(path) as string,
+    readBinary: async (path: string) => files.get(path) as ArrayBuffer,
+    remove: async (path: string) => { files.delete(path); },
+    list: async (path: string) => ({ files: Array.from(files.keys()).filter(file => file.startsWith(`${path}/`)), folders: [] as string[] })
+  };
+  const vault = {
+    adapter,
+    getAbstractFileByPath: (path: string) => notes.has(path) ? Object.assign(new TFile(), { path }) : null,
+    process: async (file: TFile, update: (content: string) => string) => {
+      const content = update(notes.get(file.path) ?? '');
+      notes.set(file.path, content);
+      return content;
+    }
+  };
+  return { vault } as unknown as App;
+}
+
+describe('PendingQueue', () => {
+  let server: StubTranscriptionServer;
+  let settings: VoiceTranscriberSettings;
+  let notes: Map<string, string>;
+  let queue: PendingQueue;
+
+  beforeEach(async () => {
+    server = new StubTranscriptionServer();
+    settings = { ...DEFAULT_SETTINGS, transcriptionProvider: 'custom', customBaseUrl: await server.start() };
+    notes = new Map([['Meeting.md', `Agenda\n${MARKER}\n`]]);
+    queue = new PendingQueue({
+      app: createApp(notes),
+      storageDir: '.obsidian/plugins/smart-transcriber',
+      getSettings: () => settings,
+      api: { http: fetchHttpClient, timeout: 300, retryDelay: 10 }
+    });
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  async function queueSegment(): Promise<void> {
+    await queue.add(WavEncoder.encode(sine(220, 16000, 1, 0.3), 16000), {
+      segmentId: 'segment-1',
+      target: { notePath: 'Meeting.md', marker: MARKER }
+    });
+  }
+
+  it('writes the transcription over the marker it left in the note', async () => {
+    server.reply({ json: { text: 'Budget review first.' } });
+    await queueSegment();
+    await queue.drain();
+
+    expect(notes.get('Meeting.md')).toBe('Agenda\nBudget review first.\n');
+    expect(queue.size).toBe(0);
+  });
+
+  it('keeps the translation when replacing the marker', async () => {
+    settings = { ...settings, enableTranslation: true, translationMode: 'both' };
+    server.reply(
+      { json: { text: 'Zuerst das Budget.' }, when: request => request.path.endsWith('/transcriptions') },
+      { json: { text: 'Budget review first.' }, when: request => request.path.endsWith('/translations') }
+    );
+    await queueSegment();
+    await queue.drain();
+
+    expect(notes.get('Meeting.md')).toBe('Agenda\nZuerst das Budget.\n> Budget review first.\n');
+  });
+});
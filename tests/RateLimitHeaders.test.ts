@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { parseRateLimit, parseResetDuration, parseRetryAfter } from '../src/utils/RateLimitHeaders';
+
+describe('parseResetDuration', () => {
+  it('reads OpenAI-style durations', () => {
+    expect(parseResetDuration('1s')).toBe(1000);
+    expect(parseResetDuration('20ms')).toBe(20);
+    expect(parseResetDuration('6m0s')).toBe(360000);
+    expect(parseResetDuration('2m59.56s')).toBeCloseTo(179560, 6);
+    expect(parseResetDuration('1h2m')).toBe(3720000);
+  });
+
+  it('treats bare numbers as seconds', () => {
+    expect(parseResetDuration('1.5')).toBe(1500);
+  });
+
+  it('ignores values it does not understand', () => {
+    expect(parseResetDuration(undefined)).toBeUndefined();
+    expect(parseResetDuration('soon')).toBeUndefined();
+    expect(parseResetDuration('5 minutes')).toBeUndefined();
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('prefers Retry-After in seconds', () => {
+    expect(parseRetryAfter({ 'retry-after': '7', 'x-ratelimit-reset-requests': '1s' })).toBe(7000);
+  });
+
+  it('reads Retry-After as an HTTP date', () => {
+    const now = Date.parse('Wed, 21 Oct 2026 07:28:00 GMT');
+    expect(parseRetryAfter({ 'retry-after': 'Wed, 21 Oct 2026 07:28:30 GMT' }, now)).toBe(30000);
+  });
+
+  it('reads the millisecond variant', () => {
+    expect(parseRetryAfter({ 'retry-after-ms': '250', 'retry-after': '1' })).toBe(250);
+  });
+
+  it('waits for whichever budget ran out', () => {
+    expect(parseRetryAfter({
+      'x-ratelimit-remaining-requests': '12',
+      'x-ratelimit-reset-requests': '1s',
+      'x-ratelimit-remaining-tokens': '0',
+      'x-ratelimit-reset-tokens': '6m0s'
+    })).toBe(360000);
+  });
+
+  it('does not wait for a reset while budget remains', () => {
+    expect(parseRetryAfter({
+      'x-ratelimit-remaining-requests': '12',
+      'x-ratelimit-reset-requests': '1s',
+      'x-ratelimit-remaining-tokens': '4000',
+      'x-ratelimit-reset-tokens': '6m0s'
+    })).toBeUndefined();
+  });
+
+  it('returns nothing without rate-limit headers', () => {
+    expect(parseRetryAfter({ 'content-type': 'application/json' })).toBeUndefined();
+  });
+});
+
+describe('parseRateLimit', () => {
+  it('reads the remaining budget', () => {
+    expect(parseRateLimit({ 'x-ratelimit-remaining-requests': '0', 'x-ratelimit-reset-requests': '400ms' })).toEqual({
+      remainingRequests: 0,
+      resetRequests: 400,
+      remainingTokens: undefined,
+      resetTokens: undefined
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import type { TranscriptSegment } from '../src/services/SegmentManager';
+import { mergeContent, planSplit } from '../src/utils/SegmentEditing';
+
+function segment(text: string, startTime: number, endTime: number, extra: Partial<TranscriptSegment> = {}): TranscriptSegment {
+  return { id: 'a', timestamp: new Date(0), text, startTime, endTime, isProcessing: false, ...extra };
+}
+
+describe('planSplit', () => {
+  it('splits between the middle words when there are word timings', () => {
+    const plan = planSplit(segment('We shipped the release today.', 0, 3, {
+      words: [
+        { word: 'We', start: 0, end: 0.3 },
+        { word: 'shipped', start: 0.3, end: 0.8 },
+        { word: 'the', start: 0.9, end: 1.1 },
+        { word: 'release', start: 1.3, end: 1.8 },
+        { word: 'today', start: 1.9, end: 2.5 }
+      ]
+    }));
+
+    expect(plan?.time).toBeCloseTo(1.2);
+    expect(plan?.first).toMatchObject({ text: 'We shipped the' });
+    expect(plan?.second).toMatchObject({ text: 'release today.' });
+    expect(plan?.second.words?.map(word => word.word)).toEqual(['release', 'today']);
+  });
+
+  it('splits at the sentence end nearest the middle and estimates the time', () => {
+    const plan = planSplit(segment('First point. Second point is longer.', 10, 20));
+
+    expect(plan?.first.text).toBe('First point.');
+    expect(plan?.second.text).toBe('Second point is longer.');
+    expect(plan?.time).toBeCloseTo(10 + 10 * (13 / 36));
+  });
+
+  it('ignores cues that no longer match the edited text', () => {
+    const plan = planSplit(segment('Hello there. General Kenobi.', 0, 2, {
+      cues: [
+        { start: 0, end: 1, text: 'Hello they.' },
+        { start: 1, end: 2, text: 'General Canobi.' }
+      ]
+    }));
+
+    expect(plan?.first).toEqual({ text: 'Hello there.', cues: undefined, translation: undefined, words: undefined });
+    expect(plan?.second.text).toBe('General Kenobi.');
+  });
+
+  it('returns null for a single word', () => {
+    expect(planSplit(segment('Hello.', 0, 1))).toBeNull();
+  });
+});
+
+describe('mergeContent', () => {
+  it('joins text, translations and cues', () => {
+    const merged = mergeContent(
+      segment('Bonjour.', 0, 1, { translation: 'Hello.', cues: [{ start: 0, end: 1, text: 'Bonjour.' }] }),
+      segment('Merci.', 1, 2, { translation: 'Thank you.' })
+    );
+
+    expect(merged.text).toBe('Bonjour. Merci.');
+    expect(merged.translation).toBe('Hello. Thank you.');
+    expect(merged.cues).toEqual([
+      { start: 0, end: 1, text: 'Bonjour.' },
+      { start: 1, end: 2, text: 'Merci.' }
+    ]);
+  });
+
+  it('joins Chinese without a space', () => {
+    expect(mergeContent(segment('今天開會', 0, 1), segment('討論發布', 1, 2)).text).toBe('今天開會討論發布');
+  });
+});
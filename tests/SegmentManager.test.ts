@@ -0,0 +1,295 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { SegmentManager, type AudioSegment, type TranscriptSegment } from '../src/services/SegmentManager';
+import { CustomProvider } from '../src/services/providers/CustomProvider';
+import type { Vocabulary } from '../src/services/Vocabulary';
+import { DEFAULT_SETTINGS } from '../src/settings/PluginSettings';
+import { WavEncoder } from '../src/utils/WavEncoder';
+import { fetchHttpClient } from './helpers/fetchHttpClient';
+import { sine } from './helpers/signals';
+import { StubTranscriptionServer, type StubRequest } from './helpers/StubTranscriptionServer';
+
+function audioSegment(id: string, startTime: number, duration = 2): AudioSegment {
+  return {
+    id,
+    audioBlob: WavEncoder.encode(sine(220, 16000, duration, 0.3), 16000),
+    timestamp: new Date(startTime * 1000),
+    startTime,
+    duration,
+    overlap: 0
+  };
+}
+
+describe('SegmentManager transcription pipeline', () => {
+  let server: StubTranscriptionServer;
+  let baseUrl: string;
+  let manager: SegmentManager;
+  let updates: TranscriptSegment[];
+  let errors: Error[];
+
+  beforeEach(async () => {
+    server = new StubTranscriptionServer();
+    baseUrl = await server.start();
+    updates = [];
+    errors = [];
+    manager = new SegmentManager({
+      provider: new CustomProvider(baseUrl, '', 'whisper-test'),
+      whisperOptions: { response_format: 'verbose_json' },
+      api: { http: fetchHttpClient, timeout: 300, retryDelay: 10 },
+      getSettings: () => DEFAULT_SETTINGS,
+      // 同一個物件會被就地更新，保存當下的快照
+      onSegmentUpdate: segment => updates.push({ ...segment }),
+      onError: error => errors.push(error)
+    });
+  });
+
+  afterEach(async () => {
+    manager.dispose();
+    await server.close();
+  });
+
+  it('turns an audio segment into a timed transcript segment', async () => {
+    server.reply({
+      json: {
+        text: 'Good morning everyone. Let us begin.',
+        duration: 2,
+        segments: [
+          { start: 0, end: 1.1, text: ' Good morning everyone.' },
+          { start: 1.1, end: 2, text: ' Let us begin.' }
+        ]
+      }
+    });
+
+    await manager.processAudioSegment(audioSegment('a', 3));
+
+    expect(updates[0]).toMatchObject({ id: 'a', text: '', isProcessing: true, startTime: 3 });
+    const final = updates[updates.length - 1];
+    expect(final).toMatchObject({ id: 'a', text: 'Good morning everyone. Let us begin.', isProcessing: false, startTime: 3, endTime: 5 });
+    expect(final.cues).toEqual([
+      { start: 3, end: 4.1, text: 'Good morning everyone.' },
+      { start: 4.1, end: 5, text: 'Let us begin.' }
+    ]);
+    expect(manager.getSegment('a')?.text).toBe('Good morning everyone. Let us begin.');
+    expect(StubTranscriptionServer.field(server.requests[0], 'response_format')).toBe('verbose_json');
+    expect(errors).toEqual([]);
+  });
+
+  it('delivers the transcript after the server recovers from a rate limit', async () => {
+    server.reply(
+      { status: 429, json: { error: { message: 'Rate limit reached' } } },
+      { status: 503, body: 'Service Unavailable' },
+      { json: { text: 'Recovered.' } }
+    );
+
+    await manager.processAudioSegment(audioSegment('a', 1));
+
+    expect(manager.getSegment('a')).toMatchObject({ text: 'Recovered.', isProcessing: false });
+    expect(server.requests).toHaveLength(3);
+    expect(errors).toEqual([]);
+  });
+
+  it('marks the segment as failed when the response is malformed', async () => {
+    server.reply({ body: '<html>Bad gateway</html>' });
+
+    await manager.processAudioSegment(audioSegment('a', 1));
+
+    expect(manager.getSegment('a')).toMatchObject({ text: '[Transcription failed]', isProcessing: false });
+    expect(errors).toHaveLength(1);
+    expect(errors[0].message).toContain('invalid response');
+  });
+
+  it('marks the segment as failed when the server keeps timing out', async () => {
+    server.replyByDefault({ hang: true });
+
+    await manager.processAudioSegment(audioSegment('a', 1));
+
+    expect(manager.getSegment('a')?.text).toBe('[Transcription failed]');
+    expect(errors[0].message).toContain('timeout');
+    expect(server.requests).toHaveLength(4);
+  });
+
+  it('removes words repeated from the previous segment', async () => {
+    server.reply(
+      { json: { text: 'We shipped the release on Friday' } },
+      { json: { text: 'on Friday afternoon after the review.' } }
+    );
+
+    await manager.processAudioSegment(audioSegment('a', 1));
+    await manager.processAudioSegment(audioSegment('b', 3));
+
+    expect(manager.getAllSegments().map(segment => segment.text)).toEqual([
+      'We shipped the release on Friday',
+      'afternoon after the review.'
+    ]);
+  });
+
+  it('delivers results in segment order when a later request finishes first', async () => {
+    // a 的音訊較長，以內容大小分辨兩個同時到達的請求
+    const isFirst = (request: StubRequest) => request.body.length > 48000;
+    server.reply(
+      { json: { text: 'We shipped the release on Friday' }, delay: 150, when: isFirst },
+      { json: { text: 'on Friday afternoon after the review.' }, when: request => !isFirst(request) }
+    );
+
+    await Promise.all([
+      manager.processAudioSegment(audioSegment('a', 1, 2)),
+      manager.processAudioSegment(audioSegment('b', 3, 1))
+    ]);
+
+    expect(server.maxInFlight).toBe(2);
+    expect(updates.filter(segment => !segment.isProcessing).map(segment => segment.id)).toEqual(['a', 'b']);
+    expect(manager.getSegment('b')?.text).toBe('afternoon after the review.');
+  });
+
+  it('builds the rolling-context prompt from the latest delivered text without holding requests back', async () => {
+    manager.dispose();
+    manager = new SegmentManager({
+      provider: new CustomProvider(baseUrl, '', 'whisper-test'),
+      api: { http: fetchHttpClient, timeout: 300, retryDelay: 10, maxConcurrent: 2 },
+      vocabulary: { createPromptBuilder: async () => (previousText?: string) => previousText || undefined } as unknown as Vocabulary,
+      getSettings: () => DEFAULT_SETTINGS,
+      onSegmentUpdate: segment => updates.push({ ...segment })
+    });
+    server.reply(
+      { json: { text: 'We shipped the release on Friday' } },
+      { json: { text: 'afternoon after the review.' }, delay: 50 },
+      { json: { text: 'Then we went home.' }, delay: 50 }
+    );
+
+    await manager.processAudioSegment(audioSegment('a', 1));
+    await Promise.all([
+      manager.processAudioSegment(audioSegment('b', 3)),
+      manager.processAudioSegment(audioSegment('c', 5))
+    ]);
+
+    expect(server.maxInFlight).toBe(2);
+    expect(StubTranscriptionServer.field(server.requests[0], 'prompt')).toBeUndefined();
+    expect(StubTranscriptionServer.field(server.requests[1], 'prompt')).toBe('We shipped the release on Friday');
+    expect(StubTranscriptionServer.field(server.requests[2], 'prompt')).toBe('We shipped the release on Friday');
+  });
+
+  it('drops hallucinated output from near-silent audio', async () => {
+    server.reply({ json: { text: 'Thanks for watching!' } });
+
+    await manager.processAudioSegment(audioSegment('a', 1));
+
+    expect(updates[updates.length - 1]).toMatchObject({ id: 'a', text: '', isProcessing: false });
+    expect(manager.getSegment('a')).toBeUndefined();
+    expect(errors).toEqual([]);
+  });
+
+  it('hands failed segments to onSegmentFailed instead of marking them', async () => {
+    const failed: TranscriptSegment[] = [];
+    manager.dispose();
+    manager = new SegmentManager({
+      provider: new CustomProvider(baseUrl, '', 'whisper-test'),
+      api: { http: fetchHttpClient, timeout: 300, retryDelay: 10 },
+      onSegmentUpdate: segment => updates.push({ ...segment }),
+      onSegmentFailed: segment => failed.push({ ...segment }),
+      onError: error => errors.push(error)
+    });
+    server.reply({ status: 401, json: { error: { message: 'Invalid API key' } } });
+
+    await manager.processAudioSegment(audioSegment('a', 4, 2));
+
+    expect(failed).toHaveLength(1);
+    expect(failed[0]).toMatchObject({ id: 'a', text: '', isProcessing: false, startTime: 4, endTime: 6 });
+    expect(failed[0].audioSegment?.audioBlob).toBeInstanceOf(Blob);
+    expect(manager.getSegment('a')).toBeUndefined();
+    expect(errors).toEqual([]);
+  });
+
+  it('re-transcribes a segment with another model, language and prompt', async () => {
+    server.reply(
+      { json: { text: 'Hello wirld.' } },
+      { json: { text: 'Hallo Welt.' } }
+    );
+    await manager.processAudioSegment(audioSegment('a', 1));
+
+    await manager.retranscribeSegment('a', { model: 'whisper-large', language: 'de', prompt: 'Hallo Welt' });
+
+    expect(manager.getSegment('a')?.text).toBe('Hallo Welt.');
+    expect(updates[updates.length - 1]).toMatchObject({ id: 'a', text: 'Hallo Welt.', isProcessing: false });
+    const request = server.requests[1];
+    expect(StubTranscriptionServer.field(request, 'model')).toBe('whisper-large');
+    expect(StubTranscriptionServer.field(request, 'language')).toBe('de');
+    expect(StubTranscriptionServer.field(request, 'prompt')).toBe('Hallo Welt');
+  });
+
+  it('keeps the previous text when re-transcription fails', async () => {
+    server.reply(
+      { json: { text: 'Hello world.' } },
+      { status: 401, json: { error: { message: 'Invalid API key' } } }
+    );
+    await manager.processAudioSegment(audioSegment('a', 1));
+
+    await expect(manager.retranscribeSegment('a')).rejects.toThrow();
+    expect(manager.getSegment('a')?.text).toBe('Hello world.');
+  });
+
+  it('splits text and audio at the cue boundary nearest the middle', async () => {
+    server.reply({
+      json: {
+        text: 'Good morning everyone. Let us begin.',
+        duration: 2,
+        segments: [
+          { start: 0, end: 1, text: ' Good morning everyone.' },
+          { start: 1.2, end: 2, text: ' Let us begin.' }
+        ]
+      }
+    });
+    await manager.processAudioSegment(audioSegment('a', 3));
+
+    const second = await manager.splitSegment('a');
+
+    const [first, last] = manager.getAllSegments();
+    expect(first).toMatchObject({ id: 'a', text: 'Good morning everyone.', startTime: 3, endTime: 4.1 });
+    expect(last).toMatchObject({ id: second.id, text: 'Let us begin.', startTime: 4.1, endTime: 5 });
+    expect(last.cues).toEqual([{ start: 4.2, end: 5, text: 'Let us begin.' }]);
+    expect(first.audioSegment?.audioBlob.size).toBe(WavEncoder.getEncodedSize(1.1 * 16000));
+    expect(last.audioSegment).toMatchObject({ startTime: 4.1, overlap: 0 });
+    expect(last.audioSegment?.audioBlob.size).toBe(WavEncoder.getEncodedSize(0.9 * 16000));
+  });
+
+  it('merges a segment with the next one and reports the next one as removed', async () => {
+    server.reply(
+      { json: { text: 'We shipped the release', duration: 2 } },
+      { json: { text: 'on Friday.', duration: 2 } }
+    );
+    await manager.processAudioSegment(audioSegment('a', 1));
+    await manager.processAudioSegment(audioSegment('b', 3));
+
+    await manager.mergeWithNext('a');
+
+    expect(manager.getAllSegments()).toHaveLength(1);
+    expect(manager.getSegment('a')).toMatchObject({ text: 'We shipped the release on Friday.', startTime: 1, endTime: 5 });
+    expect(manager.getSegment('a')?.audioSegment?.duration).toBe(4);
+    expect(manager.getSegment('a')?.audioSegment?.audioBlob.size).toBe(WavEncoder.getEncodedSize(4 * 16000));
+    expect(updates[updates.length - 1]).toMatchObject({ id: 'b', text: '', isProcessing: false });
+  });
+
+  it('does not merge segments from different recordings', async () => {
+    server.replyByDefault({ json: { text: 'Hello.' } });
+    await manager.processAudioSegment(audioSegment('a', 1));
+    manager.startSession();
+    await manager.processAudioSegment(audioSegment('b', 3));
+
+    await expect(manager.mergeWithNext('a')).rejects.toThrow('no finished segment');
+    expect(manager.getSegment('b')?.text).toBe('Hello.');
+  });
+
+  it('removes a segment and restores it as it was', async () => {
+    server.reply({ json: { text: 'Keep this sentence.' } });
+    await manager.processAudioSegment(audioSegment('a', 1));
+    const before = { ...manager.getSegment('a') } as TranscriptSegment;
+
+    manager.updateSegmentTags('a', ['todo']);
+    expect(manager.removeSegment('a')).toBe(true);
+    expect(manager.getSegment('a')).toBeUndefined();
+    expect(updates[updates.length - 1]).toMatchObject({ id: 'a', text: '', isProcessing: false });
+
+    manager.restoreSegment(before);
+    expect(manager.getSegment('a')).toMatchObject({ text: 'Keep this sentence.' });
+    expect(manager.getSegment('a')?.tags).toBeUndefined();
+    expect(updates[updates.length - 1]).toMatchObject({ id: 'a', text: 'Keep this sentence.' });
+  });
+});
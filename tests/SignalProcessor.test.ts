@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { AdaptiveFilter, SignalProcessor, SpectralSubtraction, WaveletDenoising } from '../src/utils/SignalProcessor';
+import { createRandom } from './helpers/signals';
+
+function flatSpectrum(size: number, value: number): Float32Array {
+  return new Float32Array(size).fill(value);
+}
+
+describe('SpectralSubtraction', () => {
+  it('passes the spectrum through until noise has been estimated', () => {
+    const subtraction = new SpectralSubtraction(8);
+    const spectrum = flatSpectrum(8, 0.5);
+    expect(subtraction.suppress(spectrum)).toBe(spectrum);
+  });
+
+  it('only learns noise from frames without voice', () => {
+    const subtraction = new SpectralSubtraction(8);
+    subtraction.updateNoiseEstimate(flatSpectrum(8, 0.2), true);
+    const spectrum = flatSpectrum(8, 0.2);
+    expect(subtraction.suppress(spectrum)).toBe(spectrum);
+  });
+
+  it('suppresses bins at the noise level and keeps strong bins', () => {
+    const subtraction = new SpectralSubtraction(4);
+    subtraction.updateNoiseEstimate(flatSpectrum(4, 0.1), false);
+
+    const enhanced = subtraction.suppress(new Float32Array([0.1, 0.1, 1, 1]));
+    expect(enhanced[0]).toBeLessThan(0.1 * 0.05);
+    expect(enhanced[2]).toBeGreaterThan(0.5);
+  });
+
+  it('forgets the noise estimate on reset', () => {
+    const subtraction = new SpectralSubtraction(4);
+    subtraction.updateNoiseEstimate(flatSpectrum(4, 0.1), false);
+    subtraction.reset();
+    const spectrum = flatSpectrum(4, 0.1);
+    expect(subtraction.suppress(spectrum)).toBe(spectrum);
+  });
+});
+
+describe('AdaptiveFilter', () => {
+  it('returns the desired value while the input is shorter than the filter', () => {
+    const filter = new AdaptiveFilter(32);
+    expect(filter.adapt(new Float32Array(8), 0.7)).toBe(0.7);
+  });
+
+  it('converges on a linear relation between input and desired signal', () => {
+    const filter = new AdaptiveFilter(8);
+    const random = createRandom(7);
+    const errors: number[] = [];
+
+    for (let step = 0; step < 3000; step++) {
+      const input = new Float32Array(8).map(() => random() * 2 - 1);
+      const desired = 0.5 * input[7] - 0.25 * input[6];
+      errors.push(Math.abs(desired - filter.adapt(input, desired)));
+    }
+
+    const early = errors.slice(0, 100).reduce((sum, error) => sum + error, 0) / 100;
+    const late = errors.slice(-100).reduce((sum, error) => sum + error, 0) / 100;
+    expect(late).toBeLessThan(early * 0.1);
+  });
+});
+
+describe('WaveletDenoising', () => {
+  it('applies a soft threshold', () => {
+    const denoising = new WaveletDenoising();
+    const result = denoising.denoise(new Float32Array([0.05, -0.05, 0.5, -0.5]));
+    expect(result[0]).toBe(0);
+    expect(result[1]).toBe(0);
+    expect(result[2]).toBeCloseTo(0.4, 6);
+    expect(result[3]).toBeCloseTo(-0.4, 6);
+  });
+
+  it('keeps the adaptive threshold within bounds', () => {
+    const denoising = new WaveletDenoising();
+    denoising.setAdaptiveThreshold(0);
+    expect(denoising.denoise(new Float32Array([0.06]))[0]).toBeCloseTo(0.01, 6);
+
+    denoising.setAdaptiveThreshold(10);
+    expect(denoising.denoise(new Float32Array([0.29]))[0]).toBe(0);
+  });
+});
+
+describe('SignalProcessor', () => {
+  it('returns the input untouched when disabled', () => {
+    const processor = new SignalProcessor(4);
+    processor.setEnabled(false);
+    const spectrum = flatSpectrum(4, 0.3);
+    expect(processor.processSignal(spectrum, new Float32Array(0), true, 0)).toBe(spectrum);
+  });
+
+  it('suppresses noise in voice frames after learning from non-voice frames', () => {
+    const processor = new SignalProcessor(4);
+    processor.processSignal(flatSpectrum(4, 0.1), new Float32Array(0), false, 0.1);
+    expect(processor.getStatus().spectralSubtractionReady).toBe(true);
+
+    const processed = processor.processSignal(new Float32Array([0.1, 0.1, 1, 1]), new Float32Array(0), true, 0.1);
+    expect(processed[0]).toBeLessThan(0.01);
+    expect(processed[3]).toBeGreaterThan(0.5);
+  });
+});
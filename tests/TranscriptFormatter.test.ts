@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import type { TranscriptSegment } from '../src/services/SegmentManager';
+import { formatTranscript } from '../src/utils/TranscriptFormatter';
+
+function segment(id: string, text: string, startTime: number, endTime: number, extra: Partial<TranscriptSegment> = {}): TranscriptSegment {
+  return { id, timestamp: new Date(0), text, startTime, endTime, isProcessing: false, ...extra };
+}
+
+describe('formatTranscript pauses', () => {
+  const pause = { at: 10, duration: 45 };
+
+  it('puts a pause before the first segment recorded after it', () => {
+    const text = formatTranscript([segment('a', 'Before.', 2, 8), segment('b', 'After.', 12, 15)], 'text', {
+      pauses: [pause]
+    });
+
+    expect(text).toBe('Before.\n[Paused for 45s]\nAfter.');
+  });
+
+  it('keeps a pause with its segment after the list was reordered', () => {
+    const text = formatTranscript([segment('b', 'After.', 12, 15), segment('a', 'Before.', 2, 8)], 'text', {
+      pauses: [pause]
+    });
+
+    expect(text).toBe('[Paused for 45s]\nAfter.\nBefore.');
+  });
+
+  it('matches pauses only against segments of their own session', () => {
+    // 復原的工作階段時間也從零起算，不能套用目前工作階段的暫停
+    const segments = [
+      segment('old', 'Restored.', 20, 24),
+      segment('a', 'Current before.', 2, 8),
+      segment('b', 'Current after.', 12, 15)
+    ];
+    const text = formatTranscript(segments, 'text', {
+      sessions: [
+        { segmentIds: ['old'], pauses: [] },
+        { segmentIds: ['a', 'b'], pauses: [pause] }
+      ]
+    });
+
+    expect(text).toBe('Restored.\nCurrent before.\n[Paused for 45s]\nCurrent after.');
+  });
+
+  it('marks pauses in WebVTT as NOTE blocks', () => {
+    const vtt = formatTranscript([segment('a', 'Before.', 2, 8), segment('b', 'After.', 12, 15)], 'vtt', {
+      pauses: [pause]
+    });
+
+    expect(vtt).toBe([
+      'WEBVTT',
+      '00:00:02.000 --> 00:00:08.000\nBefore.',
+      'NOTE Paused for 45s',
+      '00:00:12.000 --> 00:00:15.000\nAfter.'
+    ].join('\n\n') + '\n');
+  });
+});
+
+describe('formatTranscript cues', () => {
+  const cues = [
+    { start: 0, end: 0.2, text: 'Yes.' },
+    { start: 0.5, end: 1.4, text: 'Let us start.' }
+  ];
+
+  it('keeps a short cue at least a second long', () => {
+    const srt = formatTranscript([segment('a', 'Yes.', 4, 4.2)], 'srt');
+
+    expect(srt).toBe('1\n00:00:04,000 --> 00:00:05,000\nYes.\n');
+  });
+
+  it('does not stretch a short cue past the start of the next one in SRT', () => {
+    const srt = formatTranscript([segment('a', 'Yes. Let us start.', 0, 1.4, { cues })], 'srt');
+
+    expect(srt).toBe([
+      '1\n00:00:00,000 --> 00:00:00,500\nYes.',
+      '2\n00:00:00,500 --> 00:00:01,500\nLet us start.'
+    ].join('\n\n') + '\n');
+  });
+
+  it('does not stretch a short cue past the start of the next segment in WebVTT', () => {
+    const vtt = formatTranscript([segment('a', 'Yes.', 0, 0.2), segment('b', 'Let us start.', 0.5, 1.4)], 'vtt');
+
+    expect(vtt).toBe([
+      'WEBVTT',
+      '00:00:00.000 --> 00:00:00.500\nYes.',
+      '00:00:00.500 --> 00:00:01.500\nLet us start.'
+    ].join('\n\n') + '\n');
+  });
+});
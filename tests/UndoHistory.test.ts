@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { UndoHistory } from '../src/utils/UndoHistory';
+
+describe('UndoHistory', () => {
+  it('undoes and redoes in order', () => {
+    const history = new UndoHistory<string>();
+    history.push('a');
+    history.push('b');
+
+    expect(history.undo()).toBe('b');
+    expect(history.undo()).toBe('a');
+    expect(history.undo()).toBeUndefined();
+    expect(history.canUndo).toBe(false);
+    expect(history.redo()).toBe('a');
+    expect(history.redo()).toBe('b');
+    expect(history.canRedo).toBe(false);
+  });
+
+  it('forgets undone edits after a new edit', () => {
+    const history = new UndoHistory<string>();
+    history.push('a');
+    history.push('b');
+    history.undo();
+    history.push('c');
+
+    expect(history.canRedo).toBe(false);
+    expect(history.undo()).toBe('c');
+    expect(history.undo()).toBe('a');
+  });
+
+  it('drops the oldest edits beyond the limit', () => {
+    const history = new UndoHistory<number>(2);
+    [1, 2, 3].forEach(entry => history.push(entry));
+
+    expect(history.undo()).toBe(3);
+    expect(history.undo()).toBe(2);
+    expect(history.undo()).toBeUndefined();
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { deriveThresholds, getVoiceThresholds, type CalibrationSample, type VadCalibration } from '../src/services/VadCalibrator';
+import { DEFAULT_SETTINGS, type VoiceTranscriberSettings } from '../src/settings/PluginSettings';
+
+function samples(levels: number[], isHumanVoice: boolean, confidence = 0.6): CalibrationSample[] {
+  return levels.map(level => ({ energy: level / 2000, level, confidence, isHumanVoice }));
+}
+
+function range(from: number, to: number, count: number): number[] {
+  return Array.from({ length: count }, (_, i) => from + (to - from) * i / (count - 1));
+}
+
+const calibration: VadCalibration = {
+  label: 'USB microphone',
+  calibratedAt: 0,
+  minVoiceEnergy: 0.002,
+  minAudioLevel: 12,
+  confidenceThreshold: 0.4
+};
+
+function settingsWith(overrides: Partial<VoiceTranscriberSettings>): VoiceTranscriberSettings {
+  return { ...DEFAULT_SETTINGS, ...overrides };
+}
+
+describe('deriveThresholds', () => {
+  it('places the level threshold between room noise and speech', () => {
+    const noise = samples(range(2, 8, 200), false, 0.1);
+    const speech = samples(range(30, 60, 200), true, 0.6);
+    const result = deriveThresholds(noise, speech);
+
+    expect(result.minAudioLevel).toBeGreaterThan(8);
+    expect(result.minAudioLevel).toBeLessThan(45);
+    expect(result.confidenceThreshold).toBeCloseTo(0.55, 2);
+    expect(result.minVoiceEnergy).toBeLessThanOrEqual(result.minAudioLevel / 1000);
+  });
+
+  it('rejects speech that is not louder than the noise', () => {
+    const noise = samples(range(20, 30, 200), false);
+    const speech = samples(range(20, 32, 200), true);
+    expect(() => deriveThresholds(noise, speech)).toThrow(/not clearly louder/);
+  });
+
+  it('rejects recordings without recognized speech', () => {
+    const noise = samples(range(2, 8, 200), false);
+    const speech = samples(range(30, 60, 200), false);
+    expect(() => deriveThresholds(noise, speech)).toThrow(/No speech was recognized/);
+  });
+
+  it('rejects empty recordings', () => {
+    expect(() => deriveThresholds([], samples([40], true))).toThrow(/No audio was recorded/);
+  });
+});
+
+describe('getVoiceThresholds', () => {
+  it('falls back to the global settings', () => {
+    const thresholds = getVoiceThresholds(settingsWith({ minAudioLevel: 25, voiceConfidenceThreshold: 0.5 }));
+    expect(thresholds.minAudioLevel).toBe(25);
+    expect(thresholds.confidenceThreshold).toBe(0.5);
+  });
+
+  it('passes the voice feature settings to the detector', () => {
+    const thresholds = getVoiceThresholds(settingsWith({
+      voiceFormantRatio: 2,
+      voiceZcrRange: [0.05, 0.4],
+      voiceFundamentalBand: [70, 250],
+      voiceFormantBand: [900, 3500],
+      computerAudioCutoff: 5000
+    }));
+    expect(thresholds.voiceFormantRatio).toBe(2);
+    expect(thresholds.voiceZcrRange).toEqual([0.05, 0.4]);
+    expect(thresholds.bands).toEqual({
+      fundamental: { low: 70, high: 250 },
+      formants: { low: 900, high: 3500 },
+      highFreq: { low: 5000, high: Infinity }
+    });
+  });
+
+  it('uses the calibration of the selected device', () => {
+    const thresholds = getVoiceThresholds(settingsWith({
+      audioDeviceId: 'usb',
+      vadCalibrations: { usb: calibration }
+    }));
+    expect(thresholds.minAudioLevel).toBe(12);
+    expect(thresholds.confidenceThreshold).toBe(0.4);
+    expect(thresholds.minVoiceEnergy).toBe(0.002);
+  });
+
+  it('stores the system default device under its own key', () => {
+    const thresholds = getVoiceThresholds(settingsWith({ audioDeviceId: '', vadCalibrations: { default: calibration } }));
+    expect(thresholds.minAudioLevel).toBe(12);
+  });
+
+  it('ignores microphone calibration for system audio', () => {
+    const thresholds = getVoiceThresholds(settingsWith({
+      audioSource: 'system',
+      audioDeviceId: 'usb',
+      vadCalibrations: { usb: calibration }
+    }));
+    expect(thresholds.minAudioLevel).toBe(DEFAULT_SETTINGS.minAudioLevel);
+  });
+});
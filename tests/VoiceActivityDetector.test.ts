@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import { frequencyBandToBins, VOICE_FREQUENCY_BANDS, VoiceActivityDetector } from '../src/services/VoiceActivityDetector';
+import { FakeAnalyser } from './helpers/FakeAnalyser';
+import { detectFrames } from './helpers/detect';
+import { concat, fricative, mix, pinkNoise, silence, sine, syllables, vowel } from './helpers/signals';
+
+// 常見的裝置設定：44.1 kHz 與 48 kHz 的麥克風，以及 Whisper 的 16 kHz
+const CONFIGURATIONS: [number, number][] = [
+  [44100, 256],
+  [48000, 1024],
+  [16000, 512]
+];
+
+const VOWEL_A = [730, 1090, 2440];
+const VOWEL_I = [270, 2290, 3010];
+
+describe('frequencyBandToBins', () => {
+  it('maps bands from the actual sample rate and FFT size', () => {
+    expect(frequencyBandToBins(VOICE_FREQUENCY_BANDS.fundamental, 44100, 256)).toEqual({ start: 1, end: 2 });
+    expect(frequencyBandToBins(VOICE_FREQUENCY_BANDS.fundamental, 48000, 1024)).toEqual({ start: 2, end: 6 });
+    expect(frequencyBandToBins(VOICE_FREQUENCY_BANDS.formants, 48000, 1024)).toEqual({ start: 21, end: 85 });
+  });
+
+  it('clamps open-ended bands to the last bin', () => {
+    expect(frequencyBandToBins(VOICE_FREQUENCY_BANDS.highFreq, 16000, 512)).toEqual({ start: 128, end: 255 });
+  });
+
+  it('keeps at least one bin for bands narrower than a bin', () => {
+    const bins = frequencyBandToBins({ low: 100, high: 110 }, 48000, 256);
+    expect(bins.end).toBeGreaterThanOrEqual(bins.start);
+    expect(bins.start).toBeGreaterThanOrEqual(1);
+  });
+});
+
+describe('VoiceActivityDetector', () => {
+  it.each(CONFIGURATIONS)('never reports speech in silence (%i Hz, FFT %i)', (sampleRate, fftSize) => {
+    const run = detectFrames(silence(sampleRate, 0.5), sampleRate, fftSize);
+    expect(run.speechRatio).toBe(0);
+    expect(run.averageLevel).toBe(0);
+  });
+
+  it.each(CONFIGURATIONS)('detects synthetic vowels as speech (%i Hz, FFT %i)', (sampleRate, fftSize) => {
+    for (const formants of [VOWEL_A, VOWEL_I]) {
+      const run = detectFrames(vowel(140, formants, sampleRate, 0.6), sampleRate, fftSize);
+      expect(run.speechRatio).toBeGreaterThan(0.9);
+      expect(run.computerRatio).toBe(0);
+    }
+  });
+
+  it.each(CONFIGURATIONS.slice(0, 2))('classifies a high tone as computer audio (%i Hz, FFT %i)', (sampleRate, fftSize) => {
+    const run = detectFrames(sine(8000, sampleRate, 1), sampleRate, fftSize);
+    expect(run.computerRatio).toBeGreaterThan(0.75);
+    expect(run.speechRatio).toBeLessThan(0.2);
+  });
+
+  it('reports a lower level for quieter speech', () => {
+    const loud = detectFrames(vowel(140, VOWEL_A, 16000, 0.6, 0.5), 16000, 512);
+    const quiet = detectFrames(vowel(140, VOWEL_A, 16000, 0.6, 0.02), 16000, 512);
+    expect(quiet.averageLevel).toBeLessThan(loud.averageLevel);
+  });
+
+  it('rejects quiet speech once the minimum audio level is raised', () => {
+    const signal = vowel(140, VOWEL_A, 16000, 0.6, 0.02);
+    const run = detectFrames(signal, 16000, 512);
+    expect(run.speechRatio).toBeGreaterThan(0.5);
+
+    run.detector.setThresholds({ minAudioLevel: 80 });
+    expect(run.results.filter(result => run.detector.isSpeech(result))).toHaveLength(0);
+  });
+
+  it('rejects frames below the confidence threshold', () => {
+    const run = detectFrames(vowel(140, VOWEL_A, 16000, 0.6), 16000, 512, { confidenceThreshold: 0.95 });
+    expect(run.voiceRatio).toBeGreaterThan(0.9);
+    expect(run.speechRatio).toBe(0);
+  });
+
+  it('follows FFT size changes on the analyser', () => {
+    const analyser = new FakeAnalyser(48000, 256);
+    const detector = new VoiceActivityDetector(analyser.asNode());
+    expect(detector.getAnalysisInfo().bands.fundamental).toEqual({ start: 1, end: 2 });
+
+    analyser.fftSize = 1024;
+    analyser.feed(vowel(140, VOWEL_A, 48000, 0.05));
+    detector.detectVoiceActivity();
+
+    const info = detector.getAnalysisInfo();
+    expect(info.binWidth).toBeCloseTo(46.875);
+    expect(info.bands.fundamental).toEqual({ start: 2, end: 6 });
+  });
+
+  it('maps configured bands to bins', () => {
+    const analyser = new FakeAnalyser(48000, 1024);
+    const detector = new VoiceActivityDetector(analyser.asNode());
+    detector.setThresholds({ bands: { ...VOICE_FREQUENCY_BANDS, fundamental: { low: 60, high: 500 } } });
+    expect(detector.getAnalysisInfo().bands.fundamental).toEqual(frequencyBandToBins({ low: 60, high: 500 }, 48000, 1024));
+  });
+
+  // 目前的特徵組合把穩定的寬頻噪音也判定為人聲，調整閾值時以此為目標
+  it.todo('rejects steady pink noise at speaking level');
+
+  it.each(CONFIGURATIONS)('still detects speech over quieter room noise (%i Hz, FFT %i)', (sampleRate, fftSize) => {
+    const signal = mix(syllables(sampleRate, 8, 0.2), pinkNoise(sampleRate, 2, 0.05));
+    expect(detectFrames(signal, sampleRate, fftSize).speechRatio).toBeGreaterThan(0.5);
+  });
+
+  it.each(CONFIGURATIONS)('detects a sibilant onset as speech (%i Hz, FFT %i)', (sampleRate, fftSize) => {
+    // "sa"：擦音的過零率遠高於母音，排除寬頻噪音時不能連帶切掉字首
+    const signal = concat(silence(sampleRate, 0.3), fricative(sampleRate, 0.15, 0.1), vowel(140, VOWEL_A, sampleRate, 0.3));
+    const run = detectFrames(signal, sampleRate, fftSize);
+    const hop = Math.round(sampleRate * 0.01);
+    const onset = run.results.filter((_, i) => {
+      const end = (fftSize + i * hop) / sampleRate;
+      return end > 0.33 && end <= 0.45;
+    });
+
+    expect(onset.length).toBeGreaterThan(5);
+    expect(onset.filter(result => run.detector.isSpeech(result)).length / onset.length).toBeGreaterThan(0.8);
+  });
+});
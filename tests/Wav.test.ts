@@ -0,0 +1,95 @@
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import { deriveThresholds, type CalibrationSample } from '../src/services/VadCalibrator';
+import { WavEncoder } from '../src/utils/WavEncoder';
+import { detectFrames } from './helpers/detect';
+import { sine } from './helpers/signals';
+import { decodeWav, readWavFile } from './helpers/wav';
+
+const FIXTURES = join(__dirname, 'fixtures');
+
+describe('WAV decoding', () => {
+  it('round-trips samples encoded by WavEncoder', async () => {
+    const samples = sine(440, 16000, 0.1, 0.5);
+    const blob = WavEncoder.encode(samples, 16000);
+    const decoded = decodeWav(new Uint8Array(await blob.arrayBuffer()));
+
+    expect(decoded.sampleRate).toBe(16000);
+    expect(decoded.samples.length).toBe(samples.length);
+    for (let i = 0; i < samples.length; i += 97) {
+      expect(decoded.samples[i]).toBeCloseTo(samples[i], 3);
+    }
+  });
+
+  it('rejects other files', () => {
+    expect(() => decodeWav(new Uint8Array(64))).toThrow('Not a WAV file');
+  });
+});
+
+describe('WAV editing', () => {
+  it('splits a file and joins it back without the overlap', async () => {
+    const samples = sine(440, 16000, 1, 0.5);
+    const blob = WavEncoder.encode(samples, 16000);
+
+    const [first, second] = await WavEncoder.split(blob, 0.25);
+    const a = decodeWav(new Uint8Array(await first.arrayBuffer()));
+    const b = decodeWav(new Uint8Array(await second.arrayBuffer()));
+    expect(a.samples.length).toBe(4000);
+    expect(b.samples.length).toBe(12000);
+    expect(b.samples[0]).toBeCloseTo(samples[4000], 3);
+
+    // 第二段前 0.05 秒當作與第一段重疊
+    const overlapped = WavEncoder.encode(samples.subarray(3200), 16000);
+    const joined = decodeWav(new Uint8Array(await (await WavEncoder.concat(first, overlapped, 0.05)).arrayBuffer()));
+    expect(joined.samples.length).toBe(samples.length);
+    for (let i = 0; i < samples.length; i += 97) {
+      expect(joined.samples[i]).toBeCloseTo(samples[i], 3);
+    }
+  });
+
+  it('refuses to join different sample rates', async () => {
+    const a = WavEncoder.encode(new Float32Array(10), 16000);
+    const b = WavEncoder.encode(new Float32Array(10), 48000);
+    await expect(WavEncoder.concat(a, b)).rejects.toThrow('different sample rates');
+  });
+});
+
+// 錄音樣本的來源見 tests/fixtures/README.md
+describe('recorded fixtures', () => {
+  const speech = readWavFile(join(FIXTURES, 'speech-jfk.wav'));
+  const noise = readWavFile(join(FIXTURES, 'noise-jfk-1.wav'));
+  const otherNoise = readWavFile(join(FIXTURES, 'noise-jfk-2.wav'));
+
+  // 與 VadCalibrator.record 相同：不設能量下限，每一幀都分類
+  function calibrationSamples(samples: Float32Array, sampleRate: number, fftSize: number): CalibrationSample[] {
+    return detectFrames(samples, sampleRate, fftSize, { minVoiceEnergy: 0 }).results.map(result => ({
+      energy: result.features.shortTimeEnergy,
+      level: result.audioLevel,
+      confidence: result.confidence,
+      isHumanVoice: result.isHumanVoice
+    }));
+  }
+
+  it('decodes the recordings', () => {
+    expect(speech.sampleRate).toBe(16000);
+    expect(speech.samples.length).toBe(28800);
+    expect(noise.samples.length).toBe(14400);
+  });
+
+  it.each([256, 512, 1024])('detects speech with the default thresholds (FFT %i)', fftSize => {
+    expect(detectFrames(speech.samples, speech.sampleRate, fftSize).speechRatio).toBeGreaterThan(0.8);
+  });
+
+  // 預設閾值下這段人群噪音（級別約 30-50）也會被當成說話，所以要先校準
+  it.each([256, 512, 1024])('separates speech from crowd noise after calibrating on the room (FFT %i)', fftSize => {
+    const thresholds = deriveThresholds(
+      calibrationSamples(noise.samples, noise.sampleRate, fftSize),
+      calibrationSamples(speech.samples, speech.sampleRate, fftSize)
+    );
+
+    expect(detectFrames(speech.samples, speech.sampleRate, fftSize, thresholds).speechRatio).toBeGreaterThan(0.8);
+    expect(detectFrames(noise.samples, noise.sampleRate, fftSize, thresholds).speechRatio).toBeLessThan(0.05);
+    // 校準時沒聽過的另一段噪音
+    expect(detectFrames(otherNoise.samples, otherNoise.sampleRate, fftSize, thresholds).speechRatio).toBeLessThan(0.05);
+  });
+});
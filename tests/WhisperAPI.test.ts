@@ -0,0 +1,193 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { TranscriptionRequestError, WhisperAPI } from '../src/services/WhisperAPI';
+import { CustomProvider } from '../src/services/providers/CustomProvider';
+import { fetchHttpClient } from './helpers/fetchHttpClient';
+import { StubTranscriptionServer } from './helpers/StubTranscriptionServer';
+
+const audio = () => new Blob([new Uint8Array(64)], { type: 'audio/wav' });
+
+describe('WhisperAPI against the stub server', () => {
+  let server: StubTranscriptionServer;
+  let api: WhisperAPI;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    server = new StubTranscriptionServer();
+    baseUrl = await server.start();
+    api = new WhisperAPI(new CustomProvider(baseUrl, 'test-key', 'whisper-test'), {
+      http: fetchHttpClient,
+      timeout: 300,
+      retryDelay: 10
+    });
+  });
+
+  afterEach(async () => {
+    api.clearQueue();
+    await server.close();
+  });
+
+  it('sends the audio and options as multipart form data', async () => {
+    server.reply({ json: { text: ' Hello there. ', language: 'english' } });
+
+    const result = await api.transcribeSegment(audio(), { language: 'en', prompt: 'Kubernetes' });
+
+    expect(result).toMatchObject({ text: 'Hello there.', language: 'english' });
+    expect(server.requests).toHaveLength(1);
+    const [request] = server.requests;
+    expect(request.path).toBe('/v1/audio/transcriptions');
+    expect(request.headers.authorization).toBe('Bearer test-key');
+    expect(StubTranscriptionServer.field(request, 'model')).toBe('whisper-test');
+    expect(StubTranscriptionServer.field(request, 'language')).toBe('en');
+    expect(StubTranscriptionServer.field(request, 'prompt')).toBe('Kubernetes');
+    expect(request.body).toContain('filename="audio.wav"');
+  });
+
+  it('calls both endpoints when the translation is wanted too', async () => {
+    server.replyByDefault({ json: { text: 'Bonjour.' } });
+
+    const result = await api.transcribeSegment(audio(), { language: 'fr' }, 'both');
+
+    expect(result.text).toBe('Bonjour.');
+    expect(result.translation).toBe('Bonjour.');
+    expect(server.requests.map(request => request.path).sort()).toEqual(['/v1/audio/transcriptions', '/v1/audio/translations']);
+    const translation = server.requests.find(request => request.path.endsWith('translations'));
+    expect(translation && StubTranscriptionServer.field(translation, 'language')).toBeUndefined();
+  });
+
+  it('accepts plain text responses', async () => {
+    server.reply({ body: 'Just text' });
+    const result = await api.transcribe(audio(), { response_format: 'text' });
+    expect(result.text).toBe('Just text');
+  });
+
+  it('retries after a rate limit', async () => {
+    server.reply(
+      { status: 429, json: { error: { message: 'Rate limit reached' } }, headers: { 'Retry-After': '0' } },
+      { json: { text: 'After the limit.' } }
+    );
+
+    const result = await api.transcribe(audio());
+
+    expect(result.text).toBe('After the limit.');
+    expect(server.requests).toHaveLength(2);
+  });
+
+  it('retries unavailable servers and gives up after three retries', async () => {
+    server.replyByDefault({ status: 503, json: { error: { message: 'Overloaded' } } });
+
+    await expect(api.transcribe(audio())).rejects.toThrow('Custom endpoint API error: 503');
+    expect(server.requests).toHaveLength(4);
+  });
+
+  it('retries server errors and reports the status code', async () => {
+    server.replyByDefault({ status: 500, json: { error: { message: 'Internal error' } } });
+
+    const error = await api.transcribe(audio()).catch((error: Error) => error);
+
+    expect(error).toBeInstanceOf(TranscriptionRequestError);
+    expect((error as TranscriptionRequestError).status).toBe(500);
+    expect((error as Error).message).toMatch(/API error: 500 - .*Internal error/);
+    expect(server.requests).toHaveLength(4);
+  });
+
+  it('backs off normally after a server error that carries rate-limit headers', async () => {
+    const headers = {
+      'x-ratelimit-remaining-requests': '49',
+      'x-ratelimit-reset-requests': '6m0s',
+      'x-ratelimit-remaining-tokens': '4000',
+      'x-ratelimit-reset-tokens': '6m0s'
+    };
+    server.reply(
+      { status: 500, json: { error: { message: 'Internal error' } }, headers },
+      { json: { text: 'Recovered.' }, headers }
+    );
+
+    const started = Date.now();
+    const result = await api.transcribe(audio());
+
+    expect(result.text).toBe('Recovered.');
+    expect(Date.now() - started).toBeLessThan(2000);
+  });
+
+  it('does not retry requests the server rejected', async () => {
+    server.reply({ status: 400, json: { error: { message: 'Invalid file format' } } });
+
+    await expect(api.transcribe(audio())).rejects.toThrow('API error: 400');
+    expect(server.requests).toHaveLength(1);
+  });
+
+  it('waits as long as Retry-After asks', async () => {
+    server.reply(
+      { status: 429, json: { error: { message: 'Rate limit reached' } }, headers: { 'Retry-After': '1' } },
+      { json: { text: 'Later.' } }
+    );
+
+    await api.transcribe(audio());
+
+    const [first, second] = server.requests;
+    expect(second.receivedAt - first.receivedAt).toBeGreaterThanOrEqual(950);
+  });
+
+  it('pauses the whole queue until the rate limit resets', async () => {
+    server.reply(
+      { status: 429, json: { error: { message: 'Rate limit reached' } }, headers: { 'x-ratelimit-remaining-requests': '0', 'x-ratelimit-reset-requests': '400ms' } },
+      { json: { text: 'One.' } },
+      { json: { text: 'Two.' } }
+    );
+
+    const results = await Promise.all([api.transcribe(audio()), api.transcribe(audio())]);
+
+    expect(results.map(result => result.text).sort()).toEqual(['One.', 'Two.']);
+    const [limited, ...rest] = server.requests;
+    // 第二個請求與第一個同時送出，只有在它之後的請求要等到額度重置
+    rest.filter(request => request.receivedAt - limited.receivedAt > 50).forEach(request => {
+      expect(request.receivedAt - limited.receivedAt).toBeGreaterThanOrEqual(350);
+    });
+  });
+
+  it('stops sending once the remaining budget is used up', async () => {
+    server.reply(
+      { json: { text: 'Last one.' }, headers: { 'x-ratelimit-remaining-requests': '0', 'x-ratelimit-reset-requests': '0.4s' } },
+      { json: { text: 'Next window.' } }
+    );
+
+    const limited = new WhisperAPI(new CustomProvider(baseUrl, '', ''), {
+      http: fetchHttpClient,
+      maxConcurrent: 1
+    });
+    await limited.transcribe(audio());
+    await limited.transcribe(audio());
+
+    const [first, second] = server.requests;
+    expect(second.receivedAt - first.receivedAt).toBeGreaterThanOrEqual(350);
+  });
+
+  it('keeps several requests in flight', async () => {
+    server.replyByDefault({ json: { text: 'Slow.' }, delay: 150 });
+
+    await Promise.all([1, 2, 3, 4, 5].map(() => api.transcribe(audio())));
+
+    expect(server.maxInFlight).toBe(3);
+  });
+
+  it('retries a request that timed out', async () => {
+    server.reply({ hang: true }, { json: { text: 'Second try.' } });
+
+    const result = await api.transcribe(audio());
+
+    expect(result.text).toBe('Second try.');
+    expect(server.requests).toHaveLength(2);
+  });
+
+  it('rejects malformed JSON without retrying', async () => {
+    server.reply({ body: '{"text": "cut off' });
+
+    await expect(api.transcribe(audio())).rejects.toThrow('Custom endpoint returned an invalid response');
+    expect(server.requests).toHaveLength(1);
+  });
+
+  it('rejects JSON without a transcript', async () => {
+    server.reply({ json: { result: 'ok' } });
+    await expect(api.transcribe(audio())).rejects.toThrow('invalid response');
+  });
+});
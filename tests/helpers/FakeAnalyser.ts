@@ -0,0 +1,86 @@
+/**
+ * AnalyserNode stand-in that computes its data the way the Web Audio spec describes:
+ * Blackman window, FFT magnitude, time smoothing, then dB scaled into bytes
+ */
+export class FakeAnalyser {
+  fftSize: number;
+  smoothingTimeConstant = 0.8;
+  minDecibels = -100;
+  maxDecibels = -30;
+  readonly context: { sampleRate: number };
+
+  private window: Float32Array;
+  private smoothed: Float32Array;
+  private samples: Float32Array;
+
+  constructor(sampleRate: number, fftSize = 256) {
+    this.context = { sampleRate };
+    this.fftSize = fftSize;
+    this.window = new Float32Array(0);
+    this.smoothed = new Float32Array(0);
+    this.samples = new Float32Array(0);
+    this.resize();
+  }
+
+  get frequencyBinCount(): number {
+    return this.fftSize / 2;
+  }
+
+  /**
+   * Make `samples` the most recent audio; only the last fftSize samples are kept
+   */
+  feed(samples: Float32Array): void {
+    if (this.samples.length !== this.fftSize) {
+      this.resize();
+    }
+    const source = samples.length > this.fftSize ? samples.subarray(samples.length - this.fftSize) : samples;
+    this.samples.copyWithin(0, source.length);
+    this.samples.set(source, this.fftSize - source.length);
+  }
+
+  getByteTimeDomainData(array: Uint8Array): void {
+    const offset = this.fftSize - Math.min(array.length, this.fftSize);
+    for (let i = 0; i < array.length && i < this.fftSize; i++) {
+      array[i] = Math.max(0, Math.min(255, Math.floor(128 * (1 + this.samples[offset + i]))));
+    }
+  }
+
+  getByteFrequencyData(array: Uint8Array): void {
+    const size = this.fftSize;
+    const range = this.maxDecibels - this.minDecibels;
+
+    for (let k = 0; k < this.frequencyBinCount; k++) {
+      let real = 0;
+      let imag = 0;
+      for (let n = 0; n < size; n++) {
+        const value = this.samples[n] * this.window[n];
+        const angle = 2 * Math.PI * k * n / size;
+        real += value * Math.cos(angle);
+        imag -= value * Math.sin(angle);
+      }
+
+      const magnitude = Math.sqrt(real * real + imag * imag) / size;
+      this.smoothed[k] = this.smoothingTimeConstant * this.smoothed[k] + (1 - this.smoothingTimeConstant) * magnitude;
+
+      if (k < array.length) {
+        const db = this.smoothed[k] > 0 ? 20 * Math.log10(this.smoothed[k]) : -Infinity;
+        array[k] = Math.max(0, Math.min(255, Math.floor(255 / range * (db - this.minDecibels))));
+      }
+    }
+  }
+
+  /** Typed for code that expects a real AnalyserNode */
+  asNode(): AnalyserNode {
+    return this as unknown as AnalyserNode;
+  }
+
+  private resize(): void {
+    const size = this.fftSize;
+    this.window = new Float32Array(size);
+    for (let n = 0; n < size; n++) {
+      this.window[n] = 0.42 - 0.5 * Math.cos(2 * Math.PI * n / size) + 0.08 * Math.cos(4 * Math.PI * n / size);
+    }
+    this.smoothed = new Float32Array(size / 2);
+    this.samples = new Float32Array(size);
+  }
+}
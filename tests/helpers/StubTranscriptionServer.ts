@@ -0,0 +1,104 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import type { AddressInfo, Socket } from 'net';
+
+export interface StubReply {
+  status?: number;                    // default 200
+  json?: unknown;                     // serialized as the response body
+  body?: string;                      // raw body, e.g. malformed JSON
+  headers?: Record<string, string>;
+  hang?: boolean;                     // never answer, to exercise client timeouts
+  delay?: number;                     // ms before answering
+  when?: (request: StubRequest) => boolean;   // only answer matching requests
+}
+
+export interface StubRequest {
+  path: string;
+  headers: Record<string, string | string[] | undefined>;
+  body: string;                       // raw multipart body
+  receivedAt: number;                 // epoch ms
+}
+
+/**
+ * Local server that mimics the OpenAI `/v1/audio/transcriptions` and `/v1/audio/translations` endpoints
+ * Replies are scripted in order; once the script runs out every request gets the fallback reply
+ */
+export class StubTranscriptionServer {
+  readonly requests: StubRequest[] = [];
+  maxInFlight = 0;                    // most requests open at the same time
+  private inFlight = 0;
+  private replies: StubReply[] = [];
+  private fallback: StubReply = { json: { text: 'Hello world.' } };
+  private server: Server | null = null;
+  private sockets = new Set<Socket>();
+
+  async start(): Promise<string> {
+    const server = createServer((request, response) => this.handle(request, response));
+    server.on('connection', socket => {
+      this.sockets.add(socket);
+      socket.on('close', () => this.sockets.delete(socket));
+    });
+    this.server = server;
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}/v1`;
+  }
+
+  reply(...replies: StubReply[]): this {
+    this.replies.push(...replies);
+    return this;
+  }
+
+  replyByDefault(reply: StubReply): this {
+    this.fallback = reply;
+    return this;
+  }
+
+  async close(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = null;
+
+    // 掛住的請求不會自己結束
+    this.sockets.forEach(socket => socket.destroy());
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+
+  private handle(request: IncomingMessage, response: ServerResponse): void {
+    const chunks: Buffer[] = [];
+    request.on('data', (chunk: Buffer) => chunks.push(chunk));
+    request.on('end', () => {
+      const path = request.url ?? '';
+      if (request.method !== 'POST' || !/^\/v1\/audio\/(transcriptions|translations)$/.test(path)) {
+        response.writeHead(404, { 'Content-Type': 'application/json' });
+        response.end(JSON.stringify({ error: { message: `Unknown route ${path}` } }));
+        return;
+      }
+
+      const stubRequest: StubRequest = { path, headers: request.headers, body: Buffer.concat(chunks).toString('utf8'), receivedAt: Date.now() };
+      this.requests.push(stubRequest);
+      this.inFlight++;
+      this.maxInFlight = Math.max(this.maxInFlight, this.inFlight);
+
+      // 並行請求的到達順序不固定，需要時以 when 指定回覆對象
+      const index = this.replies.findIndex(reply => !reply.when || reply.when(stubRequest));
+      const reply = index === -1 ? this.fallback : this.replies.splice(index, 1)[0];
+      if (reply.hang) return;
+
+      setTimeout(() => {
+        this.inFlight--;
+        const body = reply.body ?? JSON.stringify(reply.json ?? {});
+        response.writeHead(reply.status ?? 200, { 'Content-Type': 'application/json', ...reply.headers });
+        response.end(body);
+      }, reply.delay ?? 0);
+    });
+  }
+
+  /**
+   * Value of a multipart form field in a recorded request
+   */
+  static field(request: StubRequest, name: string): string | undefined {
+    const match = new RegExp(`name="${name.replace(/[[\]]/g, '\\$&')}"\\r\\n\\r\\n([^\\r]*)\\r\\n`).exec(request.body);
+    return match ? match[1] : undefined;
+  }
+}
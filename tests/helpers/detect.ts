@@ -0,0 +1,43 @@
+import { VoiceActivityDetector, type VoiceDetectionResult, type VoiceDetectionThresholds } from '../../src/services/VoiceActivityDetector';
+import { FakeAnalyser } from './FakeAnalyser';
+
+export interface DetectionRun {
+  detector: VoiceActivityDetector;
+  results: VoiceDetectionResult[];
+  speechRatio: number;        // share of frames isSpeech() accepted
+  voiceRatio: number;         // share of frames classified as human voice
+  computerRatio: number;
+  averageLevel: number;
+}
+
+/**
+ * Run the detector over a signal in 10 ms steps, like the recorder's detection loop
+ */
+export function detectFrames(
+  signal: Float32Array,
+  sampleRate: number,
+  fftSize = 256,
+  thresholds: Partial<VoiceDetectionThresholds> = {}
+): DetectionRun {
+  const analyser = new FakeAnalyser(sampleRate, fftSize);
+  const detector = new VoiceActivityDetector(analyser.asNode(), thresholds);
+  const hop = Math.round(sampleRate * 0.01);
+  const results: VoiceDetectionResult[] = [];
+
+  for (let end = fftSize; end <= signal.length; end += hop) {
+    analyser.feed(signal.subarray(end - hop, end));
+    results.push(detector.detectVoiceActivity());
+  }
+
+  const share = (predicate: (result: VoiceDetectionResult) => boolean) =>
+    results.filter(predicate).length / Math.max(1, results.length);
+
+  return {
+    detector,
+    results,
+    speechRatio: share(result => detector.isSpeech(result)),
+    voiceRatio: share(result => result.isHumanVoice),
+    computerRatio: share(result => result.isComputerAudio),
+    averageLevel: results.reduce((sum, result) => sum + result.audioLevel, 0) / Math.max(1, results.length)
+  };
+}
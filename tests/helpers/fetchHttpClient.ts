@@ -0,0 +1,18 @@
+import type { HttpClient } from '../../src/services/HttpClient';
+
+/**
+ * HttpClient backed by Node's fetch, for talking to the stub server
+ */
+export const fetchHttpClient: HttpClient = async (request) => {
+  const response = await fetch(request.url, {
+    method: request.method,
+    headers: request.headers,
+    body: request.body
+  });
+
+  const headers: Record<string, string> = {};
+  response.headers.forEach((value, name) => {
+    headers[name] = value;
+  });
+  return { status: response.status, headers, text: await response.text() };
+};
@@ -0,0 +1,172 @@
+/**
+ * Synthetic test signals; every generator is deterministic so results don't flake
+ */
+
+export function createRandom(seed = 1): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 16807) % 2147483647;
+    return state / 2147483647;
+  };
+}
+
+export function sine(frequency: number, sampleRate: number, seconds: number, amplitude = 0.5): Float32Array {
+  const samples = new Float32Array(Math.round(sampleRate * seconds));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = amplitude * Math.sin(2 * Math.PI * frequency * i / sampleRate);
+  }
+  return samples;
+}
+
+export function silence(sampleRate: number, seconds: number): Float32Array {
+  return new Float32Array(Math.round(sampleRate * seconds));
+}
+
+export function whiteNoise(sampleRate: number, seconds: number, amplitude = 0.1, seed = 1): Float32Array {
+  const random = createRandom(seed);
+  const samples = new Float32Array(Math.round(sampleRate * seconds));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = amplitude * (random() * 2 - 1);
+  }
+  return samples;
+}
+
+/**
+ * 1/f noise (Paul Kellet's filter), the usual stand-in for room noise
+ */
+export function pinkNoise(sampleRate: number, seconds: number, amplitude = 0.1, seed = 1): Float32Array {
+  const white = whiteNoise(sampleRate, seconds, 1, seed);
+  const samples = new Float32Array(white.length);
+  let b0 = 0, b1 = 0, b2 = 0, b3 = 0, b4 = 0, b5 = 0, b6 = 0;
+  let peak = 0;
+
+  for (let i = 0; i < white.length; i++) {
+    const x = white[i];
+    b0 = 0.99886 * b0 + x * 0.0555179;
+    b1 = 0.99332 * b1 + x * 0.0750759;
+    b2 = 0.96900 * b2 + x * 0.1538520;
+    b3 = 0.86650 * b3 + x * 0.3104856;
+    b4 = 0.55000 * b4 + x * 0.5329522;
+    b5 = -0.7616 * b5 - x * 0.0168980;
+    samples[i] = b0 + b1 + b2 + b3 + b4 + b5 + b6 + x * 0.5362;
+    b6 = x * 0.115926;
+    peak = Math.max(peak, Math.abs(samples[i]));
+  }
+
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = samples[i] / peak * amplitude;
+  }
+  return samples;
+}
+
+/**
+ * Vowel-like signal: harmonics of a fundamental shaped by formant resonances
+ * @param formants Formant centre frequencies in Hz, e.g. [730, 1090, 2440] for "a"
+ */
+export function vowel(
+  fundamental: number,
+  formants: number[],
+  sampleRate: number,
+  seconds: number,
+  amplitude = 0.5
+): Float32Array {
+  const samples = new Float32Array(Math.round(sampleRate * seconds));
+  const bandwidth = 100;
+  const harmonics: { frequency: number; gain: number }[] = [];
+
+  for (let frequency = fundamental; frequency < sampleRate / 2; frequency += fundamental) {
+    // 聲門脈衝的頻譜以每八度 -12 dB 下降，再乘上共振峰的諧振響應
+    const source = fundamental / frequency;
+    const resonance = formants.reduce((sum, formant) => {
+      const offset = (frequency - formant) / bandwidth;
+      return sum + 1 / (1 + offset * offset);
+    }, 0);
+    harmonics.push({ frequency, gain: source * (0.2 + resonance) });
+  }
+
+  let peak = 0;
+  for (let i = 0; i < samples.length; i++) {
+    // 輕微顫音讓能量隨時間變化
+    const vibrato = 1 + 0.01 * Math.sin(2 * Math.PI * 5 * i / sampleRate);
+    let value = 0;
+    for (const harmonic of harmonics) {
+      value += harmonic.gain * Math.sin(2 * Math.PI * harmonic.frequency * vibrato * i / sampleRate);
+    }
+    samples[i] = value;
+    peak = Math.max(peak, Math.abs(value));
+  }
+
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = samples[i] / peak * amplitude;
+  }
+  return samples;
+}
+
+/**
+ * Speech-like signal: short vowels separated by brief pauses, starting after a silent lead-in
+ */
+export function syllables(sampleRate: number, count: number, leadInSeconds = 1, amplitude = 0.3): Float32Array {
+  const vowels = [[730, 1090, 2440], [270, 2290, 3010], [530, 1840, 2480], [300, 870, 2240]];
+  const parts: Float32Array[] = [silence(sampleRate, leadInSeconds)];
+  for (let i = 0; i < count; i++) {
+    parts.push(vowel(120 + 10 * (i % 3), vowels[i % vowels.length], sampleRate, 0.2, amplitude));
+    parts.push(silence(sampleRate, 0.05));
+  }
+  return concat(...parts);
+}
+
+/**
+ * Sibilant-like noise ("s", "sh"): random-phase partials spread over a high band
+ */
+export function fricative(sampleRate: number, seconds: number, amplitude = 0.2, band: [number, number] = [4000, 7500], seed = 1): Float32Array {
+  const random = createRandom(seed);
+  const partials = Array.from({ length: 60 }, () => ({
+    frequency: band[0] + (band[1] - band[0]) * random(),
+    phase: 2 * Math.PI * random()
+  }));
+  const samples = new Float32Array(Math.round(sampleRate * seconds));
+  let peak = 0;
+
+  for (let i = 0; i < samples.length; i++) {
+    let value = 0;
+    for (const partial of partials) {
+      value += Math.sin(2 * Math.PI * partial.frequency * i / sampleRate + partial.phase);
+    }
+    samples[i] = value;
+    peak = Math.max(peak, Math.abs(value));
+  }
+
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = samples[i] / peak * amplitude;
+  }
+  return samples;
+}
+
+export function mix(...signals: Float32Array[]): Float32Array {
+  const length = Math.max(...signals.map(signal => signal.length));
+  const samples = new Float32Array(length);
+  for (const signal of signals) {
+    for (let i = 0; i < signal.length; i++) {
+      samples[i] += signal[i];
+    }
+  }
+  return samples;
+}
+
+export function concat(...signals: Float32Array[]): Float32Array {
+  const samples = new Float32Array(signals.reduce((sum, signal) => sum + signal.length, 0));
+  let offset = 0;
+  for (const signal of signals) {
+    samples.set(signal, offset);
+    offset += signal.length;
+  }
+  return samples;
+}
+
+export function rms(samples: Float32Array, start = 0, end = samples.length): number {
+  let sum = 0;
+  for (let i = start; i < end; i++) {
+    sum += samples[i] * samples[i];
+  }
+  return end > start ? Math.sqrt(sum / (end - start)) : 0;
+}
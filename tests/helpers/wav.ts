@@ -0,0 +1,75 @@
+import { readFileSync } from 'fs';
+
+export interface DecodedWav {
+  sampleRate: number;
+  samples: Float32Array;   // mono; multi-channel files are downmixed
+}
+
+/**
+ * Decode a 16-bit PCM or 32-bit float WAV file
+ */
+export function decodeWav(data: Uint8Array): DecodedWav {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  if (readString(view, 0, 4) !== 'RIFF' || readString(view, 8, 4) !== 'WAVE') {
+    throw new Error('Not a WAV file');
+  }
+
+  let format = 0;
+  let channels = 1;
+  let sampleRate = 0;
+  let bitsPerSample = 0;
+  let offset = 12;
+
+  while (offset + 8 <= view.byteLength) {
+    const id = readString(view, offset, 4);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (id === 'fmt ') {
+      format = view.getUint16(body, true);
+      channels = view.getUint16(body + 2, true);
+      sampleRate = view.getUint32(body + 4, true);
+      bitsPerSample = view.getUint16(body + 14, true);
+    } else if (id === 'data') {
+      return { sampleRate, samples: readSamples(view, body, size, format, channels, bitsPerSample) };
+    }
+    // chunk 長度為奇數時有一個補齊位元組
+    offset = body + size + (size % 2);
+  }
+
+  throw new Error('WAV file has no data chunk');
+}
+
+export function readWavFile(path: string): DecodedWav {
+  return decodeWav(readFileSync(path));
+}
+
+function readSamples(view: DataView, offset: number, size: number, format: number, channels: number, bits: number): Float32Array {
+  const bytes = bits / 8;
+  const frames = Math.floor(size / (bytes * channels));
+  const samples = new Float32Array(frames);
+
+  for (let frame = 0; frame < frames; frame++) {
+    let sum = 0;
+    for (let channel = 0; channel < channels; channel++) {
+      const position = offset + (frame * channels + channel) * bytes;
+      if (format === 1 && bits === 16) {
+        sum += view.getInt16(position, true) / 32768;
+      } else if (format === 3 && bits === 32) {
+        sum += view.getFloat32(position, true);
+      } else {
+        throw new Error(`Unsupported WAV format ${format} with ${bits} bits`);
+      }
+    }
+    samples[frame] = sum / channels;
+  }
+  return samples;
+}
+
+function readString(view: DataView, offset: number, length: number): string {
+  let text = '';
+  for (let i = 0; i < length; i++) {
+    text += String.fromCharCode(view.getUint8(offset + i));
+  }
+  return text;
+}
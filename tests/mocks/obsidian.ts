@@ -0,0 +1,32 @@
+/**
+ * Stand-in for the `obsidian` package, which only ships type definitions
+ * Anything that would need the running app fails loudly so tests inject their own implementation
+ */
+export function requestUrl(): never {
+  throw new Error('requestUrl is not available in tests; inject an HttpClient instead');
+}
+
+export class TFile {
+  path = '';
+}
+
+export function normalizePath(path: string): string {
+  return path.replace(/\/+/g, '/').replace(/^\/|\/$/g, '') || '/';
+}
+
+/**
+ * Only the formatting the services use for file names
+ */
+export function moment(input?: string | Date): { format: (pattern: string) => string } {
+  const date = input ? new Date(input) : new Date();
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const tokens: Record<string, string> = {
+    YYYY: String(date.getFullYear()),
+    MM: pad(date.getMonth() + 1),
+    DD: pad(date.getDate()),
+    HH: pad(date.getHours()),
+    mm: pad(date.getMinutes()),
+    ss: pad(date.getSeconds())
+  };
+  return { format: pattern => pattern.replace(/YYYY|MM|DD|HH|mm|ss/g, token => tokens[token]) };
+}
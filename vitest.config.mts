@@ -0,0 +1,14 @@
+import { resolve } from 'path';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      // obsidian 套件只有型別定義，測試時換成最小的替身
+      obsidian: resolve(__dirname, 'tests/mocks/obsidian.ts')
+    }
+  },
+  test: {
+    include: ['tests/**/*.test.ts']
+  }
+});